@@ -1,10 +1,24 @@
-import { QuartzTransformerPlugin } from "../types"
+import { QuartzEmitterPlugin, QuartzEmitterPluginInstance, QuartzTransformerPlugin, QuartzTransformerPluginInstance } from "../types"
+import { TocEntry } from "./toc"
+import { write } from "../emitters/helpers"
+import { BuildCtx } from "../../util/ctx"
+import { FilePath, FullSlug, joinSegments, pathToRoot, slugifyFilePath } from "../../util/path"
+import { FullPageLayout } from "../../cfg"
+import { QuartzComponentProps } from "../../components/types"
+import HeaderConstructor from "../../components/Header"
+import BodyConstructor from "../../components/Body"
+import { pageResources, renderPage } from "../../components/renderPage"
+import { Content } from "../../components"
+import { sharedPageComponents } from "../../../quartz.layout"
 import { Root } from "hast"
-import { visit } from "unist-util-visit"
+import { Root as MdastRoot, Image, Link } from "mdast"
+import { visit, SKIP } from "unist-util-visit"
+import { VFile } from "vfile"
 import { Element } from "hast"
 import path from "path"
 import fs from "fs/promises"
-import { unified } from "unified"
+import { createHash } from "crypto"
+import { unified, PluggableList } from "unified"
 import remarkParse from "remark-parse"
 import remarkBreaks from "remark-breaks"
 import remarkFrontmatter from "remark-frontmatter"
@@ -12,8 +26,16 @@ import remarkGfm from "remark-gfm"
 import remarkMath from "remark-math"
 import remarkRehype from "remark-rehype"
 import remarkSmartypants from "remark-smartypants"
+import rehypeRaw from "rehype-raw"
+import rehypeKatex from "rehype-katex"
+import rehypeMathjax from "rehype-mathjax/svg"
 import rehypeStringify from "rehype-stringify"
+import rehypePrettyCode, { Options as CodeOptions } from "rehype-pretty-code"
 import { fromHtml } from "hast-util-from-html"
+import { toHtml } from "hast-util-to-html"
+import { toString } from "hast-util-to-string"
+import GithubSlugger, { slug as slugify } from "github-slugger"
+import { sanitize, defaultSchema, Schema } from "hast-util-sanitize"
 
 interface Options {
   /** Cache directory for downloaded notebooks */
@@ -22,250 +44,413 @@ interface Options {
   downloadFromGitHub: boolean
   /** Timeout for notebook downloads in ms */
   downloadTimeout: number
+  /** How often a download is retried after a 429 or 5xx response */
+  downloadRetries: number
+  /** Delay before the first retry in ms, doubled for every further one unless the host sends `Retry-After` */
+  retryDelay: number
+  /** Credentials per host, merged over the built-in GitHub and GitLab ones; `*.example.com` also matches subdomains */
+  credentials: Record<string, HostCredentials>
+  /** Offer notebooks that could only be downloaded with credentials for download, and copy them next to their standalone page */
+  publishAuthenticatedNotebooks: boolean
+  /**
+   * Most requests sent to one host at a time, notebooks and favicons alike. The limit is kept per Quartz worker,
+   * so a build that parses pages in several worker threads may send this many from each
+   */
+  maxConcurrentDownloads: number
+  /** How long a cached notebook is used before it is revalidated, in ms */
+  cacheTtl: number
+  /** Never touch the network; only notebooks already in the cache are embedded */
+  offline: boolean
+  /** Notebook URLs whose cached copy is never revalidated */
+  pinnedNotebooks: string[]
+  /** MIME types in order of preference; the first one an output carries is rendered */
+  displayPriority: string[]
+  /** Additional renderers keyed by MIME type, tried before the built-in ones */
+  mimeRenderers: Record<string, MimeRenderer>
+  /** Whether to execute `application/javascript` outputs on the page */
+  allowJavascript: boolean
+  /** Whether Plotly, Vega-Lite, Bokeh and widget outputs are drawn in the browser instead of as their static fallback */
+  interactiveOutputs: boolean
+  /**
+   * Scripts for each kind of interactive output, merged over the defaults. URLs are downloaded once into the cache
+   * and served from the site; paths from the site root, like `/static/plotly.min.js`, are linked as they are
+   */
+  outputScripts: Partial<Record<OutputLibrary, string[]>>
+  /** Allowlist applied to HTML from untrusted notebooks (hast-util-sanitize schema) */
+  sanitizeSchema: Schema
+  /** Allowlist applied to HTML from trusted notebooks */
+  trustedSanitizeSchema: Schema
+  /** Hosts whose notebooks are trusted; `*.example.com` also matches subdomains */
+  trustedHosts: string[]
+  /** Whether notebooks from the content directory are trusted */
+  trustLocalNotebooks: boolean
+  /** Shiki themes used to highlight code cells, or false to highlight them with the site's `SyntaxHighlighting` */
+  highlightTheme: CodeOptions["theme"] | false
+  /** Whether to number the lines of code cells */
+  lineNumbers: boolean
+  /** Write output images to the build output (`asset`) or inline them as data URIs (`inline`) */
+  imageMode: "asset" | "inline"
+  /** Directory inside the build output that receives notebook images */
+  assetDir: string
+  /** Whether to look up favicons of notebook hosts over the network */
+  remoteFavicons: boolean
+  /** Whether favicon lookups may ask Google's and DuckDuckGo's favicon services, telling them every notebook host */
+  faviconServices: boolean
+  /** Icons for specific hosts as URLs or data URIs, taking precedence over lookups */
+  faviconMap: Record<string, string>
+  /** Whether to ship the client script that adds collapse, copy and "show more" controls */
+  interactive: boolean
+  /** Outputs taller than this many pixels are cut off behind a "Show more" button */
+  maxOutputHeight: number
+  /** Look of the embed: Quartz-native, classic Jupyter, or a compact variant */
+  theme: "quartz" | "classic" | "compact"
+  /** Whether to show `In [ ]:` prompts next to code */
+  inputLabels: boolean
+  /** Whether to show `Out[ ]:` prompts next to outputs */
+  outputLabels: boolean
+  /** Prefix of every class the plugin emits, e.g. `notebook-cell` */
+  classPrefix: string
+  /** Whether to render raw cells; they are rendered according to `metadata.format` */
+  rawCells: boolean
+  /** Whether to show the source of code cells */
+  code: boolean
+  /** Whether to show the outputs of code cells */
+  outputs: boolean
+  /** Whether plain links to notebooks are embedded too, not only `![[...]]` and `![](...)` embeds */
+  embedLinks: boolean
+  /**
+   * How `![[notebook.ipynb]]` targets are found; set it like `markdownLinkResolution` of `CrawlLinks`. `shortest` looks
+   * a bare file name up in the whole content folder, `absolute` reads the target from the content folder, `relative`
+   * from the note. Targets that are not found this way are read relative to the note
+   */
+  markdownLinkResolution: "shortest" | "absolute" | "relative"
+  /** Additional resolvers for notebook links, tried before the built-in ones */
+  resolvers: NotebookResolver[]
+  /** Math engine: `site` follows Quartz's `Latex` transformer, or `katex`/`mathjax`, or false to leave TeX as code */
+  math: "site" | "katex" | "mathjax" | false
+  /** TeX macros, used when the site has no `Latex` transformer to take them from */
+  mathMacros: Record<string, string>
+  /** Markdown features of markdown cells: the site's Markdown transformers, or a fixed GFM, math and line-break set */
+  markdown: "site" | "builtin"
+  /** Whether headings of markdown cells are added to the page's table of contents, under the embed */
+  tableOfContents: boolean
+  /** Whether notebook text is added to the page's search text, and describes pages that are only an embed */
+  indexText: boolean
+  /** Whether code cells are part of the search text */
+  indexCode: boolean
+  /** Whether text outputs are part of the search text */
+  indexOutputs: boolean
+  /** Show only this many cells, followed by an "Open full notebook" link; 0 shows every cell */
+  preview: number
+  /** Whether the header offers Download, and Open in Colab and Launch Binder for public GitHub notebooks */
+  headerActions: boolean
+  /** Give every embedded notebook a standalone page, written by the `NotebookPages` emitter */
+  pages: boolean
+  /** Folder of the standalone notebook pages */
+  pagesDir: string
 }
 
-const defaultOptions: Options = {
-  cacheDir: "quartz/.quartz-cache/notebooks",
-  downloadFromGitHub: true,
-  downloadTimeout: 10000,
+/**
+ * Where to find credentials for a notebook host. Values name environment variables, so secrets stay out of
+ * `quartz.config.ts`; they are only sent over HTTPS and never end up in the page or in cache file names.
+ */
+export interface HostCredentials {
+  /** Variable holding a token, sent as `Authorization: Bearer <token>` */
+  token?: string
+  /** Extra headers, mapping each header name to the variable holding its value */
+  headers?: Record<string, string>
 }
 
-interface NotebookCell {
-  cell_type: string
-  source: string[]
-  outputs?: any[]
-  execution_count?: number | null
-  metadata?: any
+/**
+ * Conventional token variables of the common hosts. GitHub Actions only has `GITHUB_TOKEN` in the environment
+ * when the workflow passes it to the build step through `env`
+ */
+const defaultCredentials: Record<string, HostCredentials> = {
+  "github.com": { token: "GITHUB_TOKEN" },
+  "raw.githubusercontent.com": { token: "GITHUB_TOKEN" },
+  "api.github.com": { token: "GITHUB_TOKEN" },
+  "gitlab.com": { token: "GITLAB_TOKEN" },
 }
 
-interface NotebookData {
-  cells: NotebookCell[]
-  metadata?: any
-  nbformat?: number
-  nbformat_minor?: number
+/** Longest wait for a rate limit to reset before a download is given up, in ms */
+const maxRetryDelay = 60 * 1000
+
+/** Client-side libraries that draw interactive outputs */
+type OutputLibrary = "plotly" | "vega" | "bokeh" | "widgets"
+
+/**
+ * Scripts each library needs, loaded in order and only on pages that show such an output. `{version}` in Bokeh
+ * URLs is replaced with the BokehJS version the notebook was saved with, since documents only load in that version.
+ * Readers never load them from these hosts; the build downloads them and the site serves its own copies.
+ */
+const defaultOutputScripts: Record<OutputLibrary, string[]> = {
+  plotly: ["https://cdn.plot.ly/plotly-2.35.2.min.js"],
+  vega: [
+    "https://cdn.jsdelivr.net/npm/vega@5",
+    "https://cdn.jsdelivr.net/npm/vega-lite@5",
+    "https://cdn.jsdelivr.net/npm/vega-embed@6",
+  ],
+  bokeh: [
+    "https://cdn.bokeh.org/bokeh/release/bokeh-{version}.min.js",
+    "https://cdn.bokeh.org/bokeh/release/bokeh-widgets-{version}.min.js",
+    "https://cdn.bokeh.org/bokeh/release/bokeh-tables-{version}.min.js",
+  ],
+  widgets: [
+    "https://cdnjs.cloudflare.com/ajax/libs/require.js/2.3.6/require.min.js",
+    "https://cdn.jsdelivr.net/npm/@jupyter-widgets/html-manager@^1.0.0/dist/embed-amd.js",
+  ],
 }
 
-export const NotebookEmbedding: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
-  const opts = { ...defaultOptions, ...userOpts }
-
-  // Ensure cache directory exists
-  const ensureCacheDir = async () => {
-    try {
-      await fs.mkdir(opts.cacheDir, { recursive: true })
-    } catch (error) {
-      console.warn(`Failed to create cache directory: ${error}`)
-    }
-  }
-
-  // Download notebook from GitHub raw URL
-  const downloadNotebook = async (url: string): Promise<NotebookData | null> => {
-    try {
-      // Convert GitHub URL to raw URL if needed
-      let rawUrl = url
-      if (url.includes('github.com') && !url.includes('raw.githubusercontent.com')) {
-        rawUrl = url
-          .replace('github.com', 'raw.githubusercontent.com')
-          .replace('/blob/', '/')
-      }
-
-      const response = await fetch(rawUrl, {
-        signal: AbortSignal.timeout(opts.downloadTimeout)
-      })
-
-      if (!response.ok) {
-        console.warn(`Failed to download notebook from ${rawUrl}: ${response.status}`)
-        return null
-      }
-
-      const text = await response.text()
-      return JSON.parse(text) as NotebookData
-    } catch (error) {
-      console.warn(`Error downloading notebook from ${url}:`, error)
-      return null
-    }
-  }
-
-  // Cache notebook locally
-  const cacheNotebook = async (url: string, data: NotebookData): Promise<void> => {
-    try {
-      const urlHash = Buffer.from(url).toString('base64').replace(/[/+=]/g, '_')
-      const cachePath = path.join(opts.cacheDir, `${urlHash}.json`)
-      await fs.writeFile(cachePath, JSON.stringify(data, null, 2))
-    } catch (error) {
-      console.warn(`Failed to cache notebook: ${error}`)
-    }
-  }
-
-  // Load cached notebook
-  const loadCachedNotebook = async (url: string): Promise<NotebookData | null> => {
-    try {
-      const urlHash = Buffer.from(url).toString('base64').replace(/[/+=]/g, '_')
-      const cachePath = path.join(opts.cacheDir, `${urlHash}.json`)
-      const data = await fs.readFile(cachePath, 'utf-8')
-      return JSON.parse(data) as NotebookData
-    } catch (error) {
-      return null
-    }
-  }  // Convert notebook cell to HTML
-  const cellToHtml = async (cell: NotebookCell, index: number): Promise<string> => {
-    const cellId = `notebook-cell-${index}`
-    let content = ''
-
-    if (cell.cell_type === 'markdown') {
-      const source = Array.isArray(cell.source) ? cell.source.join('') : cell.source
-      content = `<div class="notebook-markdown-cell">${await markdownToHtml(source)}</div>`
-    } else if (cell.cell_type === 'code') {
-      const source = Array.isArray(cell.source) ? cell.source.join('') : cell.source
-      const executionCount = cell.execution_count
-
-      // Create execution count display
-      const executionLabel = executionCount !== null && executionCount !== undefined
-        ? `In [${executionCount}]:`
-        : 'In [ ]:'
-
-      // Use normal code block styling with execution count
-      const codeBlock = `
-        <div class="notebook-code-input">
-          <div class="notebook-execution-count">${executionLabel}</div>
-          <div class="notebook-code-content">
-            <pre><code class="language-python">${escapeHtml(source)}</code></pre>
-          </div>
-        </div>`
-
-      let outputsHtml = ''
-      if (cell.outputs && cell.outputs.length > 0) {
-        // Add output execution count
-        const outputLabel = executionCount !== null && executionCount !== undefined
-          ? `Out[${executionCount}]:`
-          : 'Out[ ]:'
-
-        outputsHtml = `<div class="notebook-outputs">
-          <div class="notebook-output-label">${outputLabel}</div>
-          <div class="notebook-output-content">`
-
-        for (const output of cell.outputs) {
-          outputsHtml += formatOutput(output)
-        }
-        outputsHtml += '</div></div>'
-      }
+/** Options that can be changed for a single embed */
+type EmbedOptions = Pick<Options, "code" | "outputs" | "maxOutputHeight" | "theme" | "inputLabels" | "outputLabels" | "lineNumbers" | "rawCells" | "preview">
+
+/** Names accepted for per-embed options, lowercased, with short forms for the common ones */
+const embedOptionNames: Record<string, keyof EmbedOptions> = {
+  code: "code",
+  outputs: "outputs",
+  maxheight: "maxOutputHeight",
+  maxoutputheight: "maxOutputHeight",
+  theme: "theme",
+  inputlabels: "inputLabels",
+  outputlabels: "outputLabels",
+  linenumbers: "lineNumbers",
+  rawcells: "rawCells",
+  preview: "preview",
+}
 
-      content = `${codeBlock}${outputsHtml}`
-    }
+/** Safe default: GitHub-style allowlist, plus classes so tables and math keep their styling and inline images */
+const safeSchema: Schema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    "*": [...(defaultSchema.attributes?.["*"] ?? []), "className"],
+    // Callouts and transclusions produced by Quartz's Obsidian-flavored Markdown
+    blockquote: [...(defaultSchema.attributes?.blockquote ?? []), "dataCallout", "dataCalloutFold", "dataCalloutMetadata", "dataUrl", "dataBlock"],
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    // Inlined attachments and images; an <img> never executes what it loads
+    src: [...(defaultSchema.protocols?.src ?? []), "data"],
+  },
+}
 
-    return `<div id="${cellId}" class="notebook-cell notebook-${cell.cell_type}-cell">${content}</div>`
-  }  // Simple markdown to HTML converter using remark
-  const markdownToHtml = async (markdown: string): Promise<string> => {
-    try {
-      const processor = unified()
-        .use(remarkParse)
-        .use(remarkBreaks)
-        .use(remarkFrontmatter)
-        .use(remarkGfm)
-        .use(remarkMath)
-        .use(remarkSmartypants)
-        .use(remarkRehype, { allowDangerousHtml: true })
-        .use(rehypeStringify, { allowDangerousHtml: true })
-
-      const result = await processor.process(markdown)
-      return String(result.value)
-    } catch (error) {
-      console.warn('Error processing markdown with remark:', error)
-      // Fallback to plain text wrapped in paragraph
-      return `<p>${escapeHtml(markdown)}</p>`
-    }
-  }
+/** Relaxed mode for trusted notebooks: inline styles, style sheets, SVG and data attributes */
+const relaxedSchema: Schema = {
+  ...safeSchema,
+  tagNames: [
+    ...(safeSchema.tagNames ?? []),
+    "style", "figure", "figcaption", "video", "audio", "source",
+    "svg", "g", "path", "circle", "ellipse", "rect", "line", "polyline", "polygon", "text", "tspan", "defs", "use",
+  ],
+  attributes: {
+    ...safeSchema.attributes,
+    "*": [...(safeSchema.attributes?.["*"] ?? []), "style", "data*"],
+    svg: ["viewBox", "width", "height", "xmlns", "fill", "stroke"],
+    video: ["src", "controls", "width", "height", "poster"],
+    audio: ["src", "controls"],
+    source: ["src", "type"],
+  },
+}
 
-  // Format notebook output
-  const formatOutput = (output: any): string => {
-    if (output.output_type === 'stream') {
-      const text = Array.isArray(output.text) ? output.text.join('') : output.text
-      return `<div class="notebook-stream-output"><pre>${escapeHtml(text)}</pre></div>`
-    } else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
-      if (output.data) {
-        let content = ''
-
-        // Handle text/plain
-        if (output.data['text/plain']) {
-          const text = Array.isArray(output.data['text/plain'])
-            ? output.data['text/plain'].join('')
-            : output.data['text/plain']
-          content += `<div class="notebook-text-output"><pre>${escapeHtml(text)}</pre></div>`
-        }
+const defaultOptions: Options = {
+  cacheDir: "quartz/.quartz-cache/notebooks",
+  downloadFromGitHub: true,
+  downloadTimeout: 10000,
+  downloadRetries: 3,
+  retryDelay: 1000,
+  credentials: {},
+  publishAuthenticatedNotebooks: false,
+  maxConcurrentDownloads: 4,
+  cacheTtl: 24 * 60 * 60 * 1000,
+  offline: false,
+  pinnedNotebooks: [],
+  displayPriority: [
+    "application/vnd.jupyter.widget-view+json",
+    "application/vnd.bokehjs_exec.v0+json",
+    "application/vnd.bokehjs_load.v0+json",
+    "application/vnd.plotly.v1+json",
+    "application/vnd.vegalite.v5+json",
+    "application/vnd.vegalite.v4+json",
+    "application/vnd.vegalite.v3+json",
+    "application/vnd.vega.v5+json",
+    "application/vnd.vega.v4+json",
+    "application/javascript",
+    "text/html",
+    "text/markdown",
+    "text/latex",
+    "image/svg+xml",
+    "image/png",
+    "image/gif",
+    "image/jpeg",
+    "application/json",
+    "text/plain",
+  ],
+  mimeRenderers: {},
+  allowJavascript: false,
+  interactiveOutputs: true,
+  outputScripts: {},
+  sanitizeSchema: safeSchema,
+  trustedSanitizeSchema: relaxedSchema,
+  trustedHosts: [],
+  trustLocalNotebooks: true,
+  highlightTheme: {
+    light: "github-light",
+    dark: "github-dark",
+  },
+  lineNumbers: false,
+  imageMode: "asset",
+  assetDir: "static/notebooks",
+  remoteFavicons: true,
+  faviconServices: false,
+  faviconMap: {},
+  interactive: true,
+  maxOutputHeight: 500,
+  theme: "quartz",
+  inputLabels: true,
+  outputLabels: true,
+  classPrefix: "notebook",
+  rawCells: true,
+  code: true,
+  outputs: true,
+  embedLinks: true,
+  markdownLinkResolution: "shortest",
+  resolvers: [],
+  math: "site",
+  mathMacros: {},
+  markdown: "site",
+  tableOfContents: false,
+  indexText: true,
+  indexCode: true,
+  indexOutputs: false,
+  preview: 0,
+  headerActions: true,
+  pages: false,
+  pagesDir: "notebooks",
+}
 
-        // Handle image/png
-        if (output.data['image/png']) {
-          content += `<div class="notebook-image-output"><img src="data:image/png;base64,${output.data['image/png']}" alt="Plot output" /></div>`
-        }
+/** Styles for embedded notebooks, shipped once per page; `prefix` replaces the default `notebook` class prefix */
+const notebookStyles = (prefix: string) => `
+.jupyter-${prefix}-embedded {
+  --notebook-border-color: var(--secondary);
+  --notebook-border-width: 2px;
+  --notebook-radius: 12px;
+  --notebook-shadow: 0 4px 8px rgba(0,0,0,0.1);
+  --notebook-background: var(--light);
+  --notebook-text-color: var(--darkgray);
+  --notebook-heading-color: var(--dark);
+  --notebook-header-background: var(--secondary);
+  --notebook-header-color: var(--lightgray);
+  --notebook-cell-border-color: var(--lightgray);
+  --notebook-cell-padding: 0.75rem 1.5rem;
+  --notebook-input-label-color: var(--secondary);
+  --notebook-output-label-color: var(--secondary);
+  --notebook-label-width: 85px;
+  --notebook-code-background: transparent;
+  --notebook-output-background: var(--lightgray);
+  --notebook-output-border-color: var(--gray);
+  --notebook-output-color: var(--dark);
+  --notebook-error-background: #fdf2f2;
+  --notebook-error-border-color: #fca5a5;
+  --notebook-error-color: #dc2626;
+  --notebook-favicon-background: #6366f1;
+  --notebook-favicon-color: white;
+  --notebook-font-size: 1em;
+  --ansi-black: #3e424d;
+  --ansi-black-intense: #282c36;
+  --ansi-red: #e75c58;
+  --ansi-red-intense: #b22b31;
+  --ansi-green: #00a250;
+  --ansi-green-intense: #007427;
+  --ansi-yellow: #ddb62b;
+  --ansi-yellow-intense: #b27d12;
+  --ansi-blue: #208ffb;
+  --ansi-blue-intense: #0065ca;
+  --ansi-magenta: #d160c4;
+  --ansi-magenta-intense: #a03196;
+  --ansi-cyan: #60c6c8;
+  --ansi-cyan-intense: #258f8f;
+  --ansi-white: #c5c1b4;
+  --ansi-white-intense: #a1a6b2;
+  border: var(--notebook-border-width) solid var(--notebook-border-color);
+  border-radius: var(--notebook-radius);
+  margin: 1.5rem 0;
+  background: var(--notebook-background);
+  box-shadow: var(--notebook-shadow);
+  font-size: var(--notebook-font-size);
+  overflow: hidden;
+}
 
-        // Handle text/html
-        if (output.data['text/html']) {
-          const html = Array.isArray(output.data['text/html'])
-            ? output.data['text/html'].join('')
-            : output.data['text/html']
-          content += `<div class="notebook-html-output">${html}</div>`
-        }
+html[data-theme='dark'] .jupyter-${prefix}-embedded {
+  --notebook-background: var(--darkgray);
+  --notebook-text-color: var(--light);
+  --notebook-heading-color: var(--light);
+  --notebook-header-color: var(--light);
+  --notebook-input-label-color: var(--tertiary);
+  --notebook-output-label-color: var(--tertiary);
+  --notebook-output-background: var(--darkgray);
+  --notebook-output-color: var(--light);
+  --notebook-error-background: #2d1b1b;
+  --notebook-error-border-color: #991b1b;
+  --notebook-error-color: #fca5a5;
+  --ansi-black: #7f8491;
+  --ansi-black-intense: #a1a6b2;
+  --ansi-red: #ff7b72;
+  --ansi-red-intense: #ffa198;
+  --ansi-green: #3fb950;
+  --ansi-green-intense: #56d364;
+  --ansi-yellow: #d29922;
+  --ansi-yellow-intense: #e3b341;
+  --ansi-blue: #58a6ff;
+  --ansi-blue-intense: #79c0ff;
+  --ansi-magenta: #bc8cff;
+  --ansi-magenta-intense: #d2a8ff;
+  --ansi-cyan: #39c5cf;
+  --ansi-cyan-intense: #56d4dd;
+  --ansi-white: #b1bac4;
+  --ansi-white-intense: #f0f6fc;
+}
 
-        return content
-      }
-    } else if (output.output_type === 'error') {
-      const traceback = output.traceback ? output.traceback.join('\n') : ''
-      return `<div class="notebook-error-output"><pre>${escapeHtml(traceback)}</pre></div>`
-    }
+/* Classic Jupyter: flat boxes, grey code cells, blue In and red Out prompts */
+.jupyter-${prefix}-embedded.${prefix}-theme-classic {
+  --notebook-border-color: #cfcfcf;
+  --notebook-border-width: 1px;
+  --notebook-radius: 2px;
+  --notebook-shadow: none;
+  --notebook-header-background: #f7f7f7;
+  --notebook-header-color: #333333;
+  --notebook-cell-border-color: transparent;
+  --notebook-input-label-color: #303f9f;
+  --notebook-output-label-color: #d84315;
+  --notebook-code-background: #f7f7f7;
+  --notebook-output-background: transparent;
+  --notebook-output-border-color: transparent;
+}
 
-    return ''
-  }
+html[data-theme='dark'] .jupyter-${prefix}-embedded.${prefix}-theme-classic {
+  --notebook-border-color: var(--gray);
+  --notebook-header-background: var(--darkgray);
+  --notebook-header-color: var(--light);
+  --notebook-input-label-color: #7986cb;
+  --notebook-output-label-color: #ff8a65;
+  --notebook-code-background: rgba(255,255,255,0.05);
+}
 
-  // Escape HTML
-  const escapeHtml = (text: string): string => {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#x27;')
-  }  // Convert notebook to HTML
-  const notebookToHtml = async (notebook: NotebookData, sourceUrl: string): Promise<string> => {
-    const cellPromises = notebook.cells.map((cell, index) => cellToHtml(cell, index))
-    const cells = (await Promise.all(cellPromises)).join('\n')
-
-    // Extract notebook filename from URL
-    const notebookName = sourceUrl.split('/').pop() || 'notebook.ipynb'
-
-    // Get favicon URL using our detection logic
-    const faviconUrl = await getFaviconUrl(sourceUrl)
-    const siteName = new URL(sourceUrl).hostname
-
-    return `
-      <div class="jupyter-notebook-embedded">
-        <div class="notebook-header">
-          <span class="notebook-title">Jupyter Notebook</span>
-          <div class="notebook-source">
-            <a href="${sourceUrl}" target="_blank" rel="noopener noreferrer" class="notebook-link">
-              ${notebookName}
-            </a>
-            <img src="${faviconUrl}" alt="${siteName}" class="notebook-favicon" title="Source: ${siteName}">
-          </div>
-        </div>
-        <div class="notebook-cells">
-          ${cells}
-        </div>
-      </div>
-      <style>
-.jupyter-notebook-embedded {
-  border: 2px solid var(--secondary);
-  border-radius: 12px;
-  margin: 1.5rem 0;
-  background: var(--light);
-  box-shadow: 0 4px 8px rgba(0,0,0,0.1);
-  overflow: hidden;
+/* Compact: tighter cells and narrower prompts for dense notes */
+.jupyter-${prefix}-embedded.${prefix}-theme-compact {
+  --notebook-radius: 6px;
+  --notebook-border-width: 1px;
+  --notebook-shadow: none;
+  --notebook-cell-padding: 0.35rem 0.75rem;
+  --notebook-label-width: 60px;
+  --notebook-font-size: 0.9em;
 }
 
-.notebook-header {
-  background: var(--secondary);
+.${prefix}-header {
+  background: var(--notebook-header-background);
   padding: 1rem 1.5rem;
   border-bottom: 1px solid var(--gray);
   font-weight: 700;
-  color: var(--lightgray);
+  color: var(--notebook-header-color);
   display: flex;
   align-items: center;
   justify-content: space-between;
@@ -273,12 +458,16 @@ export const NotebookEmbedding: QuartzTransformerPlugin<Partial<Options>> = (use
   max-height: 2.5rem;
 }
 
-.notebook-header::before {
+.${prefix}-theme-compact .${prefix}-header {
+  padding: 0.5rem 0.75rem;
+}
+
+.${prefix}-header::before {
   content: "📓";
   font-size: 1.2em;
 }
 
-.notebook-source {
+.${prefix}-source {
   display: flex;
   align-items: center;
   gap: 0.5rem;
@@ -286,286 +475,3197 @@ export const NotebookEmbedding: QuartzTransformerPlugin<Partial<Options>> = (use
   font-size: 0.9em;
 }
 
-.notebook-link {
-  color: var(--lightgray);
+.${prefix}-link {
+  color: var(--notebook-header-color);
   text-decoration: none;
-  border-bottom: 1px dotted var(--lightgray);
+  border-bottom: 1px dotted var(--notebook-header-color);
   transition: all 0.2s ease;
 }
 
-.notebook-link:hover {
+.${prefix}-link:hover {
   border-bottom-style: solid;
   opacity: 0.8;
 }
 
-.notebook-favicon {
+.${prefix}-action {
+  color: var(--notebook-header-color);
+  text-decoration: none;
+  border: 1px solid var(--notebook-header-color);
+  border-radius: 4px;
+  padding: 0.05rem 0.4rem;
+  font-size: 0.85em;
+  white-space: nowrap;
+}
+
+.${prefix}-action:hover {
+  opacity: 0.8;
+}
+
+.${prefix}-favicon {
   width: 16px;
   height: 16px;
   opacity: 0.8;
 }
 
-.notebook-cells {
+.${prefix}-letter-favicon {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  border-radius: 4px;
+  background: var(--notebook-favicon-background);
+  color: var(--notebook-favicon-color);
+  font-family: system-ui, sans-serif;
+  font-size: 11px;
+  font-weight: 600;
+  opacity: 1;
+}
+
+.${prefix}-cells {
   padding: 0;
 }
 
-.notebook-cell {
-  border-bottom: 1px solid var(--lightgray);
-  padding: 0.75rem 1.5rem;
+.${prefix}-cell {
+  border-bottom: 1px solid var(--notebook-cell-border-color);
+  padding: var(--notebook-cell-padding);
+  color: var(--notebook-text-color);
 }
 
-.notebook-cell:last-child {
+.${prefix}-cell:last-child {
   border-bottom: none;
 }
 
-.notebook-markdown-cell {
-  background: var(--light);
+.${prefix}-preview-more {
+  padding: var(--notebook-cell-padding);
+  border-top: 1px solid var(--notebook-cell-border-color);
+  color: var(--gray);
+  font-size: 0.9em;
+}
+
+.${prefix}-markdown-cell {
+  background: var(--notebook-background);
   line-height: 1.6;
 }
 
-.notebook-markdown-cell h1,
-.notebook-markdown-cell h2,
-.notebook-markdown-cell h3,
-.notebook-markdown-cell h4 {
+.${prefix}-markdown-cell h1,
+.${prefix}-markdown-cell h2,
+.${prefix}-markdown-cell h3,
+.${prefix}-markdown-cell h4 {
   margin: 0.5rem 0;
-  color: var(--dark);
+  color: var(--notebook-heading-color);
 }
 
-.notebook-markdown-cell p {
+.${prefix}-markdown-cell p {
   margin: 0.5rem 0;
 }
 
-.notebook-markdown-cell ul {
+.${prefix}-markdown-cell ul {
   margin: 0.5rem 0;
   padding-left: 1.5rem;
 }
 
-.notebook-code-input {
+.${prefix}-code-input {
   display: flex;
   align-items: flex-start;
   gap: 0.75rem;
   margin: 0.25rem 0;
 }
 
-.notebook-execution-count {
-  color: var(--secondary);
+.${prefix}-execution-count {
+  color: var(--notebook-input-label-color);
   font-family: monospace;
   font-size: 0.9em;
   font-weight: bold;
-  min-width: 85px;
+  min-width: var(--notebook-label-width);
   padding-top: 0.75rem;
   user-select: none;
   flex-shrink: 0;
 }
 
-.notebook-code-content {
+.${prefix}-code-content {
+  position: relative;
   flex: 1;
   min-width: 0;
+  background: var(--notebook-code-background);
+}
+
+.${prefix}-code-content figure {
+  margin: 0;
 }
 
-.notebook-code-content pre {
+.${prefix}-code-content pre {
   margin: 0;
   overflow-x: auto;
   overflow-y: hidden;
 }
 
-.notebook-outputs {
+.${prefix}-outputs {
   display: flex;
+  flex-wrap: wrap;
   align-items: flex-start;
   gap: 0.75rem;
   margin-top: 0.5rem;
 }
 
-.notebook-output-label {
-  color: var(--secondary);
+.${prefix}-output-label {
+  color: var(--notebook-output-label-color);
   font-family: monospace;
   font-size: 0.9em;
   font-weight: bold;
-  min-width: 85px;
+  min-width: var(--notebook-label-width);
   padding-top: 0.5rem;
   user-select: none;
   flex-shrink: 0;
 }
 
-.notebook-output-content {
+.${prefix}-no-input-labels .${prefix}-execution-count,
+.${prefix}-no-output-labels .${prefix}-output-label {
+  min-width: 0;
+}
+
+.${prefix}-output-content {
   flex: 1;
   min-width: 0;
 }
 
-.notebook-text-output pre,
-.notebook-stream-output pre {
-  background: var(--lightgray);
-  border: 1px solid var(--gray);
+.${prefix}-text-output pre,
+.${prefix}-stream-output pre {
+  background: var(--notebook-output-background);
+  border: 1px solid var(--notebook-output-border-color);
   border-radius: 6px;
   padding: 0.75rem;
   margin: 0;
   overflow-x: auto;
   overflow-y: hidden;
   font-size: 0.9em;
-  color: var(--dark);
+  color: var(--notebook-output-color);
   white-space: pre-wrap;
   word-wrap: break-word;
 }
 
-.notebook-image-output {
+.${prefix}-image-output {
   text-align: center;
   padding: 1rem;
-  background: var(--lightgray);
-  border: 1px solid var(--gray);
+  background: var(--notebook-output-background);
+  border: 1px solid var(--notebook-output-border-color);
   border-radius: 6px;
   margin: 0.5rem 0;
 }
 
-.notebook-image-output img {
+.${prefix}-image-output img {
   max-width: 100%;
   height: auto;
   border-radius: 6px;
   box-shadow: 0 2px 4px rgba(0,0,0,0.1);
 }
 
-.notebook-error-output pre {
-  background: #fdf2f2;
-  border: 1px solid #fca5a5;
+.${prefix}-json-output {
+  font-family: var(--codeFont), monospace;
+  font-size: 0.9em;
+}
+
+.${prefix}-json-output ul {
+  list-style: none;
+  margin: 0;
+  padding-left: 1.25rem;
+}
+
+.${prefix}-json-output summary {
+  cursor: pointer;
+}
+
+.${prefix}-json-key {
+  color: var(--secondary);
+}
+
+.${prefix}-json-preview {
+  color: var(--gray);
+}
+
+.ansi-black-fg { color: var(--ansi-black); }
+.ansi-black-bg { background-color: var(--ansi-black); }
+.ansi-black-intense-fg { color: var(--ansi-black-intense); }
+.ansi-black-intense-bg { background-color: var(--ansi-black-intense); }
+.ansi-red-fg { color: var(--ansi-red); }
+.ansi-red-bg { background-color: var(--ansi-red); }
+.ansi-red-intense-fg { color: var(--ansi-red-intense); }
+.ansi-red-intense-bg { background-color: var(--ansi-red-intense); }
+.ansi-green-fg { color: var(--ansi-green); }
+.ansi-green-bg { background-color: var(--ansi-green); }
+.ansi-green-intense-fg { color: var(--ansi-green-intense); }
+.ansi-green-intense-bg { background-color: var(--ansi-green-intense); }
+.ansi-yellow-fg { color: var(--ansi-yellow); }
+.ansi-yellow-bg { background-color: var(--ansi-yellow); }
+.ansi-yellow-intense-fg { color: var(--ansi-yellow-intense); }
+.ansi-yellow-intense-bg { background-color: var(--ansi-yellow-intense); }
+.ansi-blue-fg { color: var(--ansi-blue); }
+.ansi-blue-bg { background-color: var(--ansi-blue); }
+.ansi-blue-intense-fg { color: var(--ansi-blue-intense); }
+.ansi-blue-intense-bg { background-color: var(--ansi-blue-intense); }
+.ansi-magenta-fg { color: var(--ansi-magenta); }
+.ansi-magenta-bg { background-color: var(--ansi-magenta); }
+.ansi-magenta-intense-fg { color: var(--ansi-magenta-intense); }
+.ansi-magenta-intense-bg { background-color: var(--ansi-magenta-intense); }
+.ansi-cyan-fg { color: var(--ansi-cyan); }
+.ansi-cyan-bg { background-color: var(--ansi-cyan); }
+.ansi-cyan-intense-fg { color: var(--ansi-cyan-intense); }
+.ansi-cyan-intense-bg { background-color: var(--ansi-cyan-intense); }
+.ansi-white-fg { color: var(--ansi-white); }
+.ansi-white-bg { background-color: var(--ansi-white); }
+.ansi-white-intense-fg { color: var(--ansi-white-intense); }
+.ansi-white-intense-bg { background-color: var(--ansi-white-intense); }
+.ansi-bold { font-weight: bold; }
+.ansi-dim { opacity: 0.7; }
+.ansi-italic { font-style: italic; }
+.ansi-underline { text-decoration: underline; }
+
+.${prefix}-collapse-toggle,
+.${prefix}-collapse-all,
+.${prefix}-copy-button,
+.${prefix}-show-more {
+  font: inherit;
+  font-size: 0.8em;
+  cursor: pointer;
+  border: 1px solid var(--lightgray);
+  border-radius: 4px;
+  background: var(--light);
+  color: var(--darkgray);
+  padding: 0.1rem 0.4rem;
+}
+
+.${prefix}-collapse-toggle {
+  border: none;
+  background: none;
+  color: inherit;
+  padding: 0 0.25rem 0 0;
+}
+
+.${prefix}-collapse-all {
+  margin-left: auto;
+  font-weight: 400;
+}
+
+.${prefix}-copy-button {
+  position: absolute;
+  top: 0.4rem;
+  right: 0.4rem;
+  opacity: 0;
+  transition: opacity 0.2s ease;
+}
+
+.${prefix}-code-content:hover .${prefix}-copy-button,
+.${prefix}-copy-button:focus {
+  opacity: 1;
+}
+
+/* Quartz adds its own copy button to every code block */
+.${prefix}-code-content .clipboard-button {
+  display: none;
+}
+
+.${prefix}-collapsed > .${prefix}-code-content > *,
+.${prefix}-collapsed > .${prefix}-output-content > * {
+  display: none;
+}
+
+.${prefix}-collapsed > .${prefix}-code-content::before,
+.${prefix}-collapsed > .${prefix}-output-content::before {
+  content: "⋯";
+  display: block;
+  padding-top: 0.5rem;
+  color: var(--gray);
+  cursor: pointer;
+}
+
+.${prefix}-output-truncated {
+  overflow: hidden;
+  -webkit-mask-image: linear-gradient(to bottom, black 80%, transparent);
+  mask-image: linear-gradient(to bottom, black 80%, transparent);
+}
+
+.${prefix}-show-more {
+  margin-left: calc(var(--notebook-label-width) + 0.75rem);
+}
+
+.${prefix}-raw-text {
+  white-space: pre-wrap;
+  line-height: 1.6;
+}
+
+.${prefix}-raw-preformatted pre {
+  background: var(--notebook-output-background);
+  border: 1px solid var(--notebook-output-border-color);
+  border-radius: 6px;
+  padding: 0.75rem;
+  margin: 0;
+  overflow-x: auto;
+  font-size: 0.9em;
+  color: var(--notebook-output-color);
+}
+
+.${prefix}-hidden-input > summary,
+.${prefix}-hidden-output > summary {
+  cursor: pointer;
+  color: var(--gray);
+  font-size: 0.85em;
+  user-select: none;
+}
+
+.${prefix}-error-output pre {
+  background: var(--notebook-error-background);
+  border: 1px solid var(--notebook-error-border-color);
   border-radius: 6px;
   padding: 1rem;
   margin: 0;
-  color: #dc2626;
+  color: var(--notebook-error-color);
   font-size: 0.9em;
 }
 
-.notebook-link-unavailable {
+.${prefix}-interactive-output {
+  margin: 0.5rem 0;
+  overflow-x: auto;
+}
+
+.${prefix}-link-unavailable {
   color: var(--gray) !important;
   text-decoration: line-through;
 }
 
-.notebook-link-unavailable::after {
+.${prefix}-link-unavailable::after {
   content: " (notebook unavailable)";
   font-size: 0.8em;
   color: var(--gray);
 }
+`
 
-html[data-theme='dark'] .jupyter-notebook-embedded {
-  background: var(--darkgray);
-  border-color: var(--secondary);
+/** Client script adding collapse/expand, copy and "show more" controls; re-run on every SPA navigation */
+const notebookScript = (prefix: string) => `
+function addListener(element, handler) {
+  element.addEventListener("click", handler)
+  window.addCleanup?.(() => element.removeEventListener("click", handler))
 }
 
-html[data-theme='dark'] .notebook-header {
-  background: var(--secondary);
-  color: var(--light);
+function createButton(className, label, title) {
+  const button = document.createElement("button")
+  button.type = "button"
+  button.className = className
+  button.textContent = label
+  button.title = title
+  return button
 }
 
-html[data-theme='dark'] .notebook-link {
-  color: var(--light);
-  border-bottom-color: var(--light);
+function setCollapsed(block, collapsed) {
+  block.classList.toggle("${prefix}-collapsed", collapsed)
+  const toggle = block.querySelector(".${prefix}-collapse-toggle")
+  if (toggle) {
+    toggle.textContent = collapsed ? "▸" : "▾"
+    toggle.title = collapsed ? "Expand" : "Collapse"
+    toggle.setAttribute("aria-expanded", String(!collapsed))
+  }
 }
 
-html[data-theme='dark'] .notebook-execution-count,
-html[data-theme='dark'] .notebook-output-label {
-  color: var(--tertiary);
+function setupCollapsible(block) {
+  const label = block.querySelector(".${prefix}-execution-count, .${prefix}-output-label")
+  const content = block.querySelector(".${prefix}-code-content, .${prefix}-output-content")
+  if (!label || !content) return
+
+  const toggle = createButton("${prefix}-collapse-toggle", "▾", "Collapse")
+  label.prepend(toggle)
+  addListener(toggle, () => setCollapsed(block, !block.classList.contains("${prefix}-collapsed")))
+  // Clicking the placeholder of a collapsed block expands it again
+  addListener(content, () => {
+    if (block.classList.contains("${prefix}-collapsed")) setCollapsed(block, false)
+  })
+  setCollapsed(block, block.dataset.collapsed === "true")
 }
 
-html[data-theme='dark'] .notebook-text-output pre,
-html[data-theme='dark'] .notebook-stream-output pre {
-  background: var(--darkgray);
-  border-color: var(--gray);
-  color: var(--light);
+function setupCopy(input) {
+  const content = input.querySelector(".${prefix}-code-content")
+  const code = content?.querySelector("code")
+  if (!content || !code) return
+
+  const button = createButton("${prefix}-copy-button", "Copy", "Copy code")
+  content.append(button)
+  addListener(button, async () => {
+    await navigator.clipboard.writeText(code.innerText)
+    button.textContent = "Copied"
+    setTimeout(() => (button.textContent = "Copy"), 2000)
+  })
 }
 
-html[data-theme='dark'] .notebook-image-output {
-  background: var(--darkgray);
-  border-color: var(--gray);
+function setupShowMore(outputs, maxHeight) {
+  const content = outputs.querySelector(".${prefix}-output-content")
+  if (!content || content.scrollHeight <= maxHeight) return
+
+  content.classList.add("${prefix}-output-truncated")
+  content.style.maxHeight = maxHeight + "px"
+  const button = createButton("${prefix}-show-more", "Show more", "Show the whole output")
+  outputs.append(button)
+  addListener(button, () => {
+    const truncated = content.classList.toggle("${prefix}-output-truncated")
+    content.style.maxHeight = truncated ? maxHeight + "px" : ""
+    button.textContent = truncated ? "Show more" : "Show less"
+  })
 }
 
-html[data-theme='dark'] .notebook-markdown-cell {
-  background: var(--darkgray);
-  color: var(--light);
+function setupCollapseAll(notebook, blocks) {
+  const header = notebook.querySelector(".${prefix}-header")
+  if (!header || blocks.length === 0) return
+
+  const button = createButton("${prefix}-collapse-all", "Collapse all", "Collapse all cells")
+  header.querySelector(".${prefix}-title")?.after(button)
+  addListener(button, () => {
+    const collapse = blocks.some((block) => !block.classList.contains("${prefix}-collapsed"))
+    blocks.forEach((block) => setCollapsed(block, collapse))
+    button.textContent = collapse ? "Expand all" : "Collapse all"
+    button.title = collapse ? "Expand all cells" : "Collapse all cells"
+  })
 }
 
-html[data-theme='dark'] .notebook-markdown-cell h1,
-html[data-theme='dark'] .notebook-markdown-cell h2,
-html[data-theme='dark'] .notebook-markdown-cell h3,
-html[data-theme='dark'] .notebook-markdown-cell h4 {
-  color: var(--light);
+document.addEventListener("nav", () => {
+  for (const notebook of document.querySelectorAll(".jupyter-${prefix}-embedded")) {
+    if (notebook.dataset.interactive === "true") continue
+    notebook.dataset.interactive = "true"
+
+    const maxHeight = parseInt(notebook.dataset.maxOutputHeight ?? "0", 10)
+    const blocks = [...notebook.querySelectorAll(".${prefix}-code-input, .${prefix}-outputs")]
+    blocks.forEach(setupCollapsible)
+    notebook.querySelectorAll(".${prefix}-code-input").forEach(setupCopy)
+    if (maxHeight > 0) notebook.querySelectorAll(".${prefix}-outputs").forEach((outputs) => setupShowMore(outputs, maxHeight))
+    setupCollapseAll(notebook, blocks)
+  }
+})
+`
+
+/**
+ * Client script drawing Plotly, Vega-Lite, Bokeh and widget outputs, linked only from notebooks that have them.
+ * Quartz's SPA router runs it again on every navigation to such a page, so its state lives on `window`, and
+ * it also listens for later navigations where the router keeps the script element of the previous page.
+ */
+const interactiveOutputScript = (prefix: string) => `(() => {
+if (window.notebookOutputs) {
+  window.notebookOutputs.renderAll()
+  return
 }
 
-html[data-theme='dark'] .notebook-error-output pre {
-  background: #2d1b1b;
-  border-color: #991b1b;
-  color: #fca5a5;
+const loadedScripts = new Map()
+let scriptQueue = Promise.resolve()
+
+function injectScript(src, amd) {
+  return new Promise((resolve, reject) => {
+    // UMD bundles register with require.js when it is on the page instead of setting their global
+    const define = window.define
+    if (!amd) window.define = undefined
+    const script = document.createElement("script")
+    script.src = src
+    script.onload = () => {
+      if (!amd) window.define = define
+      resolve()
+    }
+    script.onerror = () => {
+      if (!amd) window.define = define
+      reject(new Error("Failed to load " + src))
+    }
+    document.head.append(script)
+  })
 }
-      </style>
-    `
+
+// Scripts are loaded one at a time, each only once per visit. URLs are relative to the page, so they are
+// compared once resolved
+function loadScript(src, amd) {
+  const url = new URL(src, document.baseURI).href
+  if (!loadedScripts.has(url)) {
+    const loaded = scriptQueue.then(() => injectScript(url, amd))
+    scriptQueue = loaded.catch(() => {})
+    loadedScripts.set(url, loaded)
   }
-  // Favicon detection and fetching
-  const getFaviconUrl = async (sourceUrl: string): Promise<string> => {
-    try {
-      const url = new URL(sourceUrl)
-      // Try to fetch the HTML and parse favicon links
-      const response = await fetch(`${url.protocol}//${url.hostname}`, {
-        signal: AbortSignal.timeout(5000),
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Quartz-NotebookEmbedder/1.0)'
-        }
-      })
+  return loadedScripts.get(url)
+}
 
-      if (response.ok) {
-        const html = await response.text()
-        const icons = parseFaviconLinks(html, url)
+async function loadLibrary(output) {
+  const amd = output.dataset.library === "widgets"
+  for (const src of JSON.parse(output.dataset.scripts)) await loadScript(src, amd)
+}
 
-        if (icons.length > 0) {
-          // Sort by size (largest first) and return the best one
-          const bestIcon = getBestIcon(icons)
-          return bestIcon
-        }
-      }
-    } catch (error) {
-      console.warn(`Failed to fetch favicon from HTML for ${sourceUrl}:`, error)
-    }
+function createTarget(output) {
+  const target = document.createElement("div")
+  target.className = "${prefix}-interactive-target"
+  output.append(target)
+  return target
+}
 
-    // Fallback to alternative sources
-    const domain = new URL(sourceUrl).hostname
-    const fallbackSources = [
-      `https://www.google.com/s2/favicons?domain=${domain}&sz=32`,
-      `https://icons.duckduckgo.com/ip3/${domain}.ico`,
-      `${new URL(sourceUrl).protocol}//${domain}/favicon.ico`
-    ]
+const outputRenderers = {
+  plotly: (output, figure) =>
+    window.Plotly.newPlot(createTarget(output), figure.data ?? [], figure.layout ?? {}, { responsive: true, ...figure.config }),
+  vega: (output, spec) => window.vegaEmbed(createTarget(output), spec, { actions: false }),
+  bokeh: (output, { code, elementId }) => {
+    createTarget(output).id = elementId
+    new Function(code)()
+  },
+}
 
-    for (const fallbackUrl of fallbackSources) {
-      try {
-        const response = await fetch(fallbackUrl, {
-          signal: AbortSignal.timeout(3000),
-          method: 'HEAD' // Just check if it exists
-        })
-        if (response.ok) {
-          return fallbackUrl
-        }
-      } catch (error) {
-        // Continue to next fallback
-      }
-    }
+async function renderOutput(output) {
+  await loadLibrary(output)
+  await outputRenderers[output.dataset.library](output, JSON.parse(output.dataset.payload))
+  output.querySelector(".${prefix}-interactive-fallback")?.remove()
+}
 
-    // Generate letter-based favicon as last resort
-    return generateLetterFavicon(domain)
+// The widget manager draws every view of a notebook from the state saved on its root element
+async function renderWidgets(notebook, outputs) {
+  await loadLibrary(outputs[0])
+  const state = document.createElement("script")
+  state.type = "application/vnd.jupyter.widget-state+json"
+  state.textContent = notebook.dataset.widgetState
+  notebook.append(state)
+  for (const output of outputs) {
+    const view = document.createElement("script")
+    view.type = "application/vnd.jupyter.widget-view+json"
+    view.textContent = output.dataset.payload
+    createTarget(output).append(view)
   }
 
-  const parseFaviconLinks = (html: string, baseUrl: URL): Array<{ sizes: string, href: string }> => {
-    const regex = /<link[^>]*rel=['"]?[^\s]*icon['"]?[^>]*?>/gi
-    const matches = Array.from(html.matchAll(regex))
-    const icons: Array<{ sizes: string, href: string }> = []
+  const embed = await new Promise((resolve, reject) =>
+    window.require(["@jupyter-widgets/html-manager/dist/libembed-amd"], resolve, reject))
+  await embed.renderWidgets(notebook)
+  outputs.forEach((output) => output.querySelector(".${prefix}-interactive-fallback")?.remove())
+}
 
-    matches.forEach((match) => {
-      const linkTag = match[0]
+function renderAll() {
+  for (const notebook of document.querySelectorAll(".jupyter-${prefix}-embedded")) {
+    if (notebook.dataset.outputsRendered === "true") continue
+    notebook.dataset.outputsRendered = "true"
+
+    const outputs = [...notebook.querySelectorAll(".${prefix}-interactive-output")]
+    const widgets = outputs.filter((output) => output.dataset.library === "widgets")
+    // Outputs whose library fails keep showing their static fallback
+    const report = (error) => console.error("Failed to render notebook output:", error)
+    outputs
+      .filter((output) => output.dataset.library !== "widgets")
+      .forEach((output) => renderOutput(output).catch(report))
+    if (widgets.length > 0) renderWidgets(notebook, widgets).catch(report)
+  }
+}
 
-      // Extract href value
-      const hrefMatch = linkTag.match(/href=['"]?([^\s>'"]*)['"]?/i)
-      const href = hrefMatch ? hrefMatch[1] : null
+window.notebookOutputs = { renderAll }
+document.addEventListener("nav", renderAll)
+renderAll()
+})()
+`
+
+/** Same stylesheet Quartz's `Latex` transformer links, for sites that render math only inside notebooks */
+const katexStylesheet = "https://cdn.jsdelivr.net/npm/katex@0.16.11/dist/katex.min.css"
+
+const svgDataUri = (svg: string) => `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`
+
+/** Icons for common notebook hosts, so they never need to be looked up */
+const builtinFavicons: Record<string, string> = {
+  "github.com": svgDataUri(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#181717" d="M12 .297c-6.63 0-12 5.373-12 12 0 5.303 3.438 9.8 8.205 11.385.6.113.82-.258.82-.577 0-.285-.01-1.04-.015-2.04-3.338.724-4.042-1.61-4.042-1.61C4.422 18.07 3.633 17.7 3.633 17.7c-1.087-.744.084-.729.084-.729 1.205.084 1.838 1.236 1.838 1.236 1.07 1.835 2.809 1.305 3.495.998.108-.776.417-1.305.76-1.605-2.665-.3-5.466-1.332-5.466-5.93 0-1.31.465-2.38 1.235-3.22-.135-.303-.54-1.523.105-3.176 0 0 1.005-.322 3.3 1.23.96-.267 1.98-.399 3-.405 1.02.006 2.04.138 3 .405 2.28-1.552 3.285-1.23 3.285-1.23.645 1.653.24 2.873.12 3.176.765.84 1.23 1.91 1.23 3.22 0 4.61-2.805 5.625-5.475 5.92.42.36.81 1.096.81 2.22 0 1.606-.015 2.896-.015 3.286 0 .315.21.69.825.57C20.565 22.092 24 17.592 24 12.297c0-6.627-5.373-12-12-12"/></svg>`,
+  ),
+  "gitlab.com": svgDataUri(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#FC6D26" d="m23.6 9.593-.034-.086L20.3.98a.85.85 0 0 0-.336-.405.875.875 0 0 0-1 .054.875.875 0 0 0-.29.44L16.47 7.818H7.537L5.332 1.07a.857.857 0 0 0-.29-.441.875.875 0 0 0-1-.054.859.859 0 0 0-.336.405L.433 9.502l-.032.086a6.066 6.066 0 0 0 2.012 7.01l.011.009.03.021 4.976 3.727 2.462 1.863 1.5 1.132a1.009 1.009 0 0 0 1.22 0l1.499-1.132 2.462-1.863 5.006-3.749.012-.01a6.068 6.068 0 0 0 2.009-7.003z"/></svg>`,
+  ),
+  "colab.research.google.com": svgDataUri(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><circle cx="7" cy="12" r="5" fill="none" stroke="#E8710A" stroke-width="3"/><circle cx="17" cy="12" r="5" fill="none" stroke="#F9AB00" stroke-width="3"/></svg>`,
+  ),
+}
 
-      // Extract sizes value
-      const sizesMatch = linkTag.match(/sizes=['"]?([^\s>'"]*)['"]?/i)
-      const sizes = sizesMatch ? sizesMatch[1] : 'unknown'
+/** File extensions for the image types the plugin writes to disk */
+const imageExtensions: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+  "image/webp": "webp",
+  "image/x-icon": "ico",
+  "image/vnd.microsoft.icon": "ico",
+}
 
-      if (href) {
-        // Convert relative URLs to absolute using helper
-        const absoluteHref = toAbsoluteUrl(href, baseUrl)
+/** Decoded last path segment, the notebook's file name */
+const lastSegment = (segments: string[]): string => decodeURIComponent(segments[segments.length - 1] ?? "")
+
+/** Repository hosts serve images and other files under the same URLs as notebooks, so only `.ipynb` paths count */
+const isNotebookPath = (segments: string[]): boolean => lastSegment(segments).endsWith(".ipynb")
+
+/** Raw gist URLs may leave out the file name, which serves the gist's first file, but never name another file type */
+const isGistNotebookPath = (segments: string[]): boolean => !lastSegment(segments).includes(".") || isNotebookPath(segments)
+
+/** A notebook in a GitHub repository; `rest` is the ref followed by the file path */
+const githubNotebook = (owner: string, repo: string, rest: string[]): ResolvedNotebook => ({
+  rawUrl: `https://raw.githubusercontent.com/${owner}/${repo}/${rest.join("/")}`,
+  pageUrl: `https://github.com/${owner}/${repo}/blob/${rest.join("/")}`,
+  name: lastSegment(rest),
+  repository: { provider: "github", owner, repo, ref: rest[0], path: decodeURIComponent(rest.slice(1).join("/")) },
+})
+
+/** github.com blob, raw and tree links, with or without `?raw=true`, and raw.githubusercontent.com URLs */
+const resolveGitHub: NotebookResolver = (url) => {
+  const segments = url.pathname.split("/").filter(Boolean)
+  if (!isNotebookPath(segments)) return null
+  if (url.hostname === "raw.githubusercontent.com" && segments.length >= 4) {
+    const [owner, repo, ...rest] = segments
+    // Newer raw links spell the ref as `refs/heads/main`; both forms serve the same file
+    if (rest[0] === "refs" && ["heads", "tags"].includes(rest[1])) rest.splice(0, 2)
+    return githubNotebook(owner, repo, rest)
+  }
+  if (url.hostname === "github.com" && segments.length >= 5 && ["blob", "raw", "tree"].includes(segments[2])) {
+    const [owner, repo, , ...rest] = segments
+    return githubNotebook(owner, repo, rest)
+  }
+  return null
+}
+
+/** Gist pages, optionally at a revision, and raw gist files */
+const resolveGist: NotebookResolver = (url) => {
+  const segments = url.pathname.split("/").filter(Boolean)
+  if (segments.length < 2) return null
+  const [user, id] = segments
+  if (segments.length > 2 && !isGistNotebookPath(segments)) return null
+  const pageUrl = `https://gist.github.com/${user}/${id}`
+
+  if (url.hostname === "gist.githubusercontent.com") {
+    return { rawUrl: `${url.origin}${url.pathname}`, pageUrl, name: lastSegment(segments) }
+  }
+  if (url.hostname === "gist.github.com") {
+    // Without a file name the raw URL serves the gist's first file
+    const rest = segments[2] === "raw" ? segments.slice(3) : segments.slice(2)
+    const name = rest.length > 0 && lastSegment(rest).endsWith(".ipynb") ? lastSegment(rest) : `gist-${id.slice(0, 8)}.ipynb`
+    return { rawUrl: `https://gist.githubusercontent.com/${user}/${id}/raw${rest.map(segment => `/${segment}`).join("")}`, pageUrl, name }
+  }
+  return null
+}
+
+/** GitLab blob and raw links, on gitlab.com or any self-hosted instance */
+const resolveGitLab: NotebookResolver = (url) => {
+  const match = url.pathname.match(/^\/(.+?)\/-\/(?:blob|raw)\/(.+)$/)
+  if (!match) return null
+  const [, project, rest] = match
+  const projectSegments = project.split("/")
+  const restSegments = rest.split("/")
+  if (!isNotebookPath(restSegments)) return null
+  return {
+    rawUrl: `${url.origin}/${project}/-/raw/${rest}`,
+    pageUrl: `${url.origin}/${project}/-/blob/${rest}`,
+    name: lastSegment(restSegments),
+    repository: {
+      provider: "gitlab",
+      owner: projectSegments.slice(0, -1).join("/"),
+      repo: projectSegments[projectSegments.length - 1],
+      ref: restSegments[0],
+      path: decodeURIComponent(restSegments.slice(1).join("/")),
+    },
+  }
+}
+
+/** Bitbucket Cloud source and raw links */
+const resolveBitbucket: NotebookResolver = (url) => {
+  const segments = url.pathname.split("/").filter(Boolean)
+  if (url.hostname !== "bitbucket.org" || segments.length < 5 || !["src", "raw"].includes(segments[2]) || !isNotebookPath(segments)) return null
+  const [owner, repo, , ...rest] = segments
+  return {
+    rawUrl: `https://bitbucket.org/${owner}/${repo}/raw/${rest.join("/")}`,
+    pageUrl: `https://bitbucket.org/${owner}/${repo}/src/${rest.join("/")}`,
+    name: lastSegment(rest),
+    repository: { provider: "bitbucket", owner, repo, ref: rest[0], path: decodeURIComponent(rest.slice(1).join("/")) },
+  }
+}
+
+/** Gitea and Forgejo source and raw links, such as Codeberg's, on any host */
+const resolveGitea: NotebookResolver = (url) => {
+  const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/(?:src|raw)\/(branch|tag|commit)\/(.+)$/)
+  if (!match) return null
+  const [, owner, repo, kind, rest] = match
+  const restSegments = rest.split("/")
+  if (!isNotebookPath(restSegments)) return null
+  return {
+    rawUrl: `${url.origin}/${owner}/${repo}/raw/${kind}/${rest}`,
+    pageUrl: `${url.origin}/${owner}/${repo}/src/${kind}/${rest}`,
+    name: lastSegment(restSegments),
+    repository: { provider: "gitea", owner, repo, ref: restSegments[0], path: decodeURIComponent(restSegments.slice(1).join("/")) },
+  }
+}
+
+/** Hugging Face model, dataset and Space repositories */
+const resolveHuggingFace: NotebookResolver = (url) => {
+  if (url.hostname !== "huggingface.co") return null
+  const segments = url.pathname.split("/").filter(Boolean)
+  const kind = ["datasets", "spaces"].includes(segments[0]) ? `${segments.shift()}/` : ""
+  if (segments.length < 5 || !["blob", "resolve", "raw"].includes(segments[2]) || !isNotebookPath(segments)) return null
+  const [owner, repo, , ...rest] = segments
+  return {
+    rawUrl: `https://huggingface.co/${kind}${owner}/${repo}/resolve/${rest.join("/")}`,
+    pageUrl: `https://huggingface.co/${kind}${owner}/${repo}/blob/${rest.join("/")}`,
+    name: lastSegment(rest),
+    repository: { provider: "huggingface", owner, repo, ref: rest[0], path: decodeURIComponent(rest.slice(1).join("/")) },
+  }
+}
+
+/** nbviewer links, which wrap a GitHub path, a gist or any other URL; the header keeps linking to nbviewer */
+const resolveNbviewer: NotebookResolver = (url) => {
+  if (url.hostname !== "nbviewer.org" && url.hostname !== "nbviewer.jupyter.org") return null
+  const [kind, ...rest] = url.pathname.split("/").filter(Boolean)
+  const targets: Record<string, string> = {
+    github: `https://github.com/${rest.join("/")}`,
+    gist: `https://gist.github.com/${rest.join("/")}`,
+    url: `http://${rest.join("/")}`,
+    urls: `https://${rest.join("/")}`,
+  }
+  const resolved = targets[kind] ? resolveBuiltin(new URL(targets[kind])) : null
+  return resolved && { ...resolved, pageUrl: url.toString() }
+}
+
+/** Colab links to notebooks on GitHub, in gists or on Google Drive; the header keeps linking to Colab */
+const resolveColab: NotebookResolver = (url) => {
+  if (url.hostname !== "colab.research.google.com") return null
+  const [kind, ...rest] = url.pathname.split("/").filter(Boolean)
+  if (kind === "drive" && rest[0]) {
+    return { rawUrl: `https://drive.google.com/uc?export=download&id=${rest[0]}`, pageUrl: url.toString(), name: "Colab notebook" }
+  }
+  const target = kind === "github" ? `https://github.com/${rest.join("/")}` : kind === "gist" ? `https://gist.github.com/${rest.join("/")}` : null
+  const resolved = target ? resolveBuiltin(new URL(target)) : null
+  return resolved && { ...resolved, pageUrl: url.toString() }
+}
+
+/** Any other URL to an `.ipynb` file is downloaded as is */
+const resolveDirect: NotebookResolver = (url) => {
+  if (!url.pathname.endsWith(".ipynb")) return null
+  const segments = url.pathname.split("/").filter(Boolean)
+  return { rawUrl: `${url.origin}${url.pathname}${url.search}`, pageUrl: url.toString(), name: lastSegment(segments) }
+}
+
+/** Built-in resolvers, most specific first */
+const builtinResolvers: NotebookResolver[] = [
+  resolveGitHub,
+  resolveGist,
+  resolveGitLab,
+  resolveBitbucket,
+  resolveGitea,
+  resolveHuggingFace,
+  resolveNbviewer,
+  resolveColab,
+  resolveDirect,
+]
+
+const resolveBuiltin = (url: URL): ResolvedNotebook | null => {
+  for (const resolver of builtinResolvers) {
+    const resolved = resolver(url)
+    if (resolved) return resolved
+  }
+  return null
+}
+
+/** Kernel language names that differ from the Shiki language id */
+const languageAliases: Record<string, string> = {
+  "c++": "cpp",
+  "c#": "csharp",
+  "f#": "fsharp",
+  "ir": "r",
+  "octave": "matlab",
+  "shell": "bash",
+  "sh": "bash",
+  "zsh": "bash",
+  "js": "javascript",
+  "node": "javascript",
+}
+
+/**
+ * Transformers that describe the page as a whole rather than its Markdown. They are left out when
+ * markdown cells go through the site's transformers; `Latex` is applied separately through `math`.
+ */
+const pageTransformers = ["NotebookEmbedding", "FrontMatter", "CreatedModifiedDate", "Description", "TableOfContents", "Latex"]
+
+/** Cell magics that switch a code cell to another language */
+const cellMagicLanguages: Record<string, string> = {
+  bash: "bash",
+  sh: "bash",
+  script: "bash",
+  sql: "sql",
+  html: "html",
+  javascript: "javascript",
+  js: "javascript",
+  latex: "latex",
+  markdown: "markdown",
+  perl: "perl",
+  ruby: "ruby",
+  r: "r",
+  svg: "xml",
+  python: "python",
+  python3: "python",
+  pypy: "python",
+}
+
+/**
+ * Renders a single representation of a `display_data`/`execute_result` output to HTML.
+ * Returning an empty string makes the next MIME type in the priority list be tried.
+ */
+export type MimeRenderer = (data: any, output: any, ctx: RenderContext) => string | Promise<string>
+
+/** Per-notebook state threaded through rendering */
+export interface RenderContext {
+  notebook: NotebookData
+  source: NotebookSource
+  /** Whether HTML from this notebook is sanitized with the trusted schema */
+  trusted: boolean
+  /** Default language of code cells, from the kernel metadata */
+  language: string
+  ctx: BuildCtx
+  /** Prefix that makes URLs of emitted assets resolve from the embedding page */
+  assetBase: string
+  /** Files the rendered notebook links to, by their path in the build output */
+  assets: Map<string, Uint8Array>
+  /** Data of the page the notebook is embedded in */
+  page: VFile["data"]
+  /** Internal links found in markdown cells, added to the page for backlinks and the graph view */
+  links: Set<string>
+  /** Prefix of cell and heading ids, unique to the embed on its page */
+  anchorPrefix: string
+  /** Plugin options with the embed's own options applied */
+  options: Options
+  /** Set once an output needs the notebook's saved widget state on the page */
+  usesWidgets: boolean
+  /** Set once an output is drawn in the browser, so the embed links the script that draws it */
+  usesInteractiveOutputs: boolean
+}
+
+/** A notebook in a Git repository, for links back to the repository and launch buttons */
+export interface NotebookRepository {
+  /** Hosting service: `github`, `gitlab`, `bitbucket`, `gitea` or `huggingface` */
+  provider: string
+  owner: string
+  repo: string
+  /** Branch, tag or commit */
+  ref: string
+  /** Path of the notebook inside the repository */
+  path: string
+}
+
+/** Where a remote notebook is downloaded from, and how the embed header shows it */
+export interface ResolvedNotebook {
+  /** URL that serves the notebook JSON */
+  rawUrl: string
+  /** Page the header links to, usually the notebook's page on its host */
+  pageUrl: string
+  /** File name shown in the header */
+  name: string
+  repository?: NotebookRepository
+}
+
+/** Maps a notebook link to where it is downloaded from, or returns null to leave it to the next resolver */
+export type NotebookResolver = (url: URL) => ResolvedNotebook | null
+
+interface NotebookCell {
+  id?: string
+  cell_type: string
+  /** Always a single string once the notebook has been normalized */
+  source: string
+  /** Files pasted into markdown cells, as MIME bundles keyed by file name */
+  attachments?: Record<string, Record<string, string | string[]>>
+  outputs?: any[]
+  execution_count?: number | null
+  metadata?: any
+}
+
+interface NotebookData {
+  cells: NotebookCell[]
+  metadata?: any
+  nbformat?: number
+  nbformat_minor?: number
+}
+
+interface NotebookSource {
+  /** Href exactly as written in the note */
+  href: string
+  /** Whether the notebook lives inside the Quartz content directory */
+  local: boolean
+  /** Remote URL, or path on disk for local notebooks */
+  location: string
+  /** Download URL and display details of a remote notebook */
+  resolved?: ResolvedNotebook
+  /** Cells requested through the href fragment */
+  selection?: CellSelection
+  /** Options set on the embed, through the query string or the embed's title */
+  options: Partial<EmbedOptions>
+}
+
+interface CacheManifestEntry {
+  /** Notebook URL the entry was fetched from */
+  url: string
+  /** Time of the last successful fetch or revalidation, in ms since epoch */
+  fetchedAt: number
+  /** Validators sent back when revalidating, keyed by the URL that returned them; only that URL understands them */
+  validators?: Record<string, HttpValidators>
+  /** SHA-256 of the cached notebook file */
+  contentHash: string
+  /** Pinned entries are never revalidated; set by hand or through `pinnedNotebooks` */
+  pinned?: boolean
+  /** Only served through the authenticated GitHub API, so launch buttons are left out */
+  private?: boolean
+  /** Only downloaded with credentials, so the file is not published unless `publishAuthenticatedNotebooks` is set */
+  authenticated?: boolean
+}
+
+interface CachedFavicon {
+  host: string
+  mimeType: string
+  /** Base64 encoded icon bytes */
+  data: string
+}
+
+/** A host whose favicon was not found, so it is not looked up again until `cacheTtl` has passed */
+interface MissingFavicon {
+  host: string
+  missing: true
+  /** Time of the lookup, in ms since epoch */
+  checkedAt: number
+}
+
+interface HttpValidators {
+  etag?: string
+  lastModified?: string
+}
+
+/** How a download got through: with credentials, and through the GitHub API, only when it had to */
+interface DownloadAccess {
+  private: boolean
+  authenticated: boolean
+}
+
+type DownloadResult =
+  | ({ modified: true, text: string, url: string, validators: HttpValidators } & DownloadAccess)
+  | ({ modified: false } & DownloadAccess)
+  | { problem: NotebookProblem }
+
+/** Why a notebook could not be read, downloaded or parsed */
+interface NotebookProblem {
+  reason: "http" | "timeout" | "network" | "invalid-json" | "schema" | "missing" | "unresolved" | "offline" | "render"
+  /** HTTP status of a failed download */
+  status?: number
+  message: string
+}
+
+/** A loaded notebook, or why there is none. A stale cached copy comes with the problem that kept it from being refreshed */
+interface NotebookLoad {
+  notebook: NotebookData | null
+  problem?: NotebookProblem
+}
+
+interface CellSelection {
+  /** 1-based inclusive cell ranges, from `#cells=3-7` */
+  ranges?: Array<[number, number]>
+  /** nbformat 4.5 cell ids, from `#cell-id=abc123` */
+  ids?: string[]
+  /** Cell tags, from `#tags=figure` */
+  tags?: string[]
+}
+
+/**
+ * Standalone page of a notebook, recorded on every page that embeds it for the `NotebookPages` emitter.
+ * It travels on the page data because Quartz may parse pages in worker threads.
+ */
+export interface NotebookPage {
+  slug: FullSlug
+  filePath: FilePath
+  relativePath: FilePath
+  title: string
+  description: string
+  text: string
+  /** The whole notebook, rendered the way a note embedding it would be */
+  html: string
+}
+
+/** A file an embedded notebook needs in the build output, such as an output image, written by the `NotebookAssets` emitter */
+export interface NotebookAsset {
+  /** Path inside the build output */
+  path: string
+  content: Uint8Array
+}
+
+/** An embed that failed or fell back to a stale copy, collected per page for the `NotebookDiagnostics` emitter */
+export interface NotebookDiagnostic extends NotebookProblem {
+  /** Note with the embed, relative to the content folder */
+  file: string
+  href: string
+  /** Whether an older cached copy was embedded instead, so the embed is outdated rather than missing */
+  staleCache: boolean
+}
+
+declare module "vfile" {
+  interface DataMap {
+    notebookPages: NotebookPage[]
+    notebookAssets: NotebookAsset[]
+    notebookDiagnostics: NotebookDiagnostic[]
+  }
+}
+
+export const NotebookEmbedding: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
+  const opts = { ...defaultOptions, ...userOpts }
+  const prefix = opts.classPrefix
+
+  let legacyCacheRemoved = false
+
+  // Ensure cache directory exists
+  const ensureCacheDir = async () => {
+    try {
+      await fs.mkdir(opts.cacheDir, { recursive: true })
+    } catch (error) {
+      console.warn(`Failed to create cache directory: ${error}`)
+    }
+
+    if (!legacyCacheRemoved) {
+      legacyCacheRemoved = true
+      await removeLegacyCache()
+    }
+  }
+
+  // Older versions cached parsed notebooks as `<base64 of the URL>.json`, which nothing reads any more. Only
+  // names of that shape, starting with the encoding of `http://` or `https://`, are removed, since the cache
+  // folder may be shared with other files
+  const removeLegacyCache = async () => {
+    try {
+      const names = await fs.readdir(opts.cacheDir)
+      const legacy = names.filter(name => /^aHR0c(?:DovL|HM6Ly)\w*\.json$/.test(name))
+      await Promise.all(legacy.map(name => fs.rm(path.join(opts.cacheDir, name), { force: true })))
+    } catch (error) {
+      console.warn(`Failed to remove old cache files: ${error}`)
+    }
+  }
+
+  // Cache file names are derived from a hash so long URLs stay within filesystem limits
+  const getCacheKey = (url: string): string => {
+    return createHash('sha256').update(url).digest('hex')
+  }
+
+  const getContentHash = (text: string): string => {
+    return createHash('sha256').update(text).digest('hex')
+  }
+
+  // Read the manifest entry recorded when a notebook was last fetched
+  const readCacheManifest = async (url: string): Promise<CacheManifestEntry | null> => {
+    try {
+      const manifestPath = path.join(opts.cacheDir, `${getCacheKey(url)}.meta.json`)
+      return JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as CacheManifestEntry
+    } catch (error) {
+      return null
+    }
+  }
+
+  const writeCacheManifest = async (entry: CacheManifestEntry): Promise<void> => {
+    try {
+      const manifestPath = path.join(opts.cacheDir, `${getCacheKey(entry.url)}.meta.json`)
+      await fs.writeFile(manifestPath, JSON.stringify(entry, null, 2))
+    } catch (error) {
+      console.warn(`Failed to write cache manifest: ${error}`)
+    }
+  }
+
+  const resolvers = [...opts.resolvers, ...builtinResolvers]
+
+  // Find where a notebook link is downloaded from; the first resolver that recognizes it wins
+  const resolveRemoteNotebook = (location: string): ResolvedNotebook | null => {
+    const url = new URL(location)
+    for (const resolver of resolvers) {
+      const resolved = resolver(url)
+      if (resolved) return resolved
+    }
+    return null
+  }
+
+  // Hostname patterns as in `trustedHosts` and `credentials`: exact, or `*.example.com` for subdomains too
+  const matchesHost = (hostname: string, pattern: string): boolean => {
+    return pattern.startsWith('*.')
+      ? hostname === pattern.slice(2) || hostname.endsWith(pattern.slice(1))
+      : hostname === pattern
+  }
+
+  const credentials = { ...defaultCredentials, ...opts.credentials }
+
+  // Authentication headers for a URL, read from the environment on every request
+  const getAuthHeaders = (url: string): Record<string, string> => {
+    const { protocol, hostname } = new URL(url)
+    const pattern = Object.keys(credentials).find(host => matchesHost(hostname, host))
+    if (protocol !== 'https:' || !pattern) return {}
+
+    const { token, headers = {} } = credentials[pattern]
+    const authHeaders: Record<string, string> = {}
+    if (token && process.env[token]) authHeaders['Authorization'] = `Bearer ${process.env[token]}`
+    for (const [header, variable] of Object.entries(headers)) {
+      const value = process.env[variable]
+      if (value) authHeaders[header] = value
+    }
+    return authHeaders
+  }
+
+  // How long to wait before retrying a response, or null when it should not be retried
+  const getRetryDelay = (response: Response, attempt: number): number | null => {
+    // GitHub answers an exhausted rate limit with 403 and the time it resets
+    const rateLimited = response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0'
+    if (response.status !== 429 && response.status < 500 && !rateLimited) return null
+
+    const retryAfter = response.headers.get('retry-after')
+    const resetAt = response.headers.get('x-ratelimit-reset')
+    let delay = opts.retryDelay * 2 ** attempt
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+    } else if (resetAt) {
+      delay = Number(resetAt) * 1000 - Date.now()
+    }
+    return delay <= maxRetryDelay ? Math.max(delay, 0) : null
+  }
+
+  // Requests running and waiting per host, shared by the pages this worker parses
+  const hostSlots = new Map<string, { active: number, waiting: Array<() => void> }>()
+
+  // Run a request once fewer than `maxConcurrentDownloads` requests to its host are in flight
+  const withHostLimit = async <T>(url: string, task: () => Promise<T>): Promise<T> => {
+    const host = new URL(url).host
+    const slots = hostSlots.get(host) ?? { active: 0, waiting: [] }
+    hostSlots.set(host, slots)
+
+    if (slots.active >= opts.maxConcurrentDownloads) {
+      // A finishing request hands its slot over directly, so `active` stays the same
+      await new Promise<void>(resolve => slots.waiting.push(resolve))
+    } else {
+      slots.active++
+    }
+
+    try {
+      return await task()
+    } finally {
+      const next = slots.waiting.shift()
+      if (next) {
+        next()
+      } else {
+        slots.active--
+      }
+    }
+  }
+
+  // Fetch with retries and exponential backoff on rate limits and server errors
+  const fetchWithRetry = async (url: string, headers: Record<string, string>): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(opts.downloadTimeout)
+      })
+
+      const delay = attempt < opts.downloadRetries ? getRetryDelay(response, attempt) : null
+      if (delay === null) return response
+
+      // An unread body keeps its connection busy, so it is dropped before waiting
+      await response.body?.cancel()
+      console.warn(`Download of ${url} failed with ${response.status}, retrying in ${Math.ceil(delay / 1000)}s`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  // Private GitHub files are not served by the raw host, but the contents API returns them with a token
+  const getGitHubContentsUrl = (resolved: ResolvedNotebook): string | null => {
+    const repository = resolved.repository
+    if (repository?.provider !== 'github') return null
+
+    const filePath = repository.path.split('/').map(encodeURIComponent).join('/')
+    return `https://api.github.com/repos/${repository.owner}/${repository.repo}/contents/${filePath}?ref=${encodeURIComponent(repository.ref)}`
+  }
+
+  // Request one notebook URL, revalidating with the validators it returned last time. The host's slot is
+  // held until the body is read, so large notebooks count against the limit too
+  const requestNotebookFile = (url: string, headers: Record<string, string>, cached: CacheManifestEntry | null): Promise<{ status: number, text?: string, validators?: HttpValidators }> => {
+    return withHostLimit(url, async () => {
+      const validators = cached?.validators?.[url]
+      const conditional: Record<string, string> = {}
+      if (validators?.etag) conditional['If-None-Match'] = validators.etag
+      if (validators?.lastModified) conditional['If-Modified-Since'] = validators.lastModified
+
+      const response = await fetchWithRetry(url, { ...conditional, ...headers })
+      if (!response.ok) {
+        await response.body?.cancel()
+        return { status: response.status }
+      }
+      return {
+        status: response.status,
+        text: await response.text(),
+        validators: {
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+        },
+      }
+    })
+  }
+
+  // Download notebook from its raw URL, revalidating against the cached copy when possible. Credentials are
+  // only sent once the file is refused without them, so public notebooks are never taken for private ones
+  const downloadNotebook = async (resolved: ResolvedNotebook, cached: CacheManifestEntry | null): Promise<DownloadResult> => {
+    const { rawUrl } = resolved
+    const refused = (status: number) => [401, 403, 404, 429].includes(status)
+    try {
+      let url = rawUrl
+      let file = await requestNotebookFile(rawUrl, {}, cached)
+      let isPrivate = false
+      let authenticated = false
+
+      const authHeaders = getAuthHeaders(rawUrl)
+      if (refused(file.status) && Object.keys(authHeaders).length > 0) {
+        authenticated = true
+        file = await requestNotebookFile(rawUrl, authHeaders, cached)
+      }
+
+      // The raw host's slot is released by now, so the fallback only waits for the API host
+      const apiUrl = getGitHubContentsUrl(resolved)
+      const apiHeaders = apiUrl ? getAuthHeaders(apiUrl) : {}
+      if (refused(file.status) && apiUrl && Object.keys(apiHeaders).length > 0) {
+        isPrivate = true
+        authenticated = true
+        url = apiUrl
+        file = await requestNotebookFile(apiUrl, { ...apiHeaders, Accept: 'application/vnd.github.raw' }, cached)
+      }
+
+      if (file.status === 304) {
+        return { modified: false, private: isPrivate, authenticated }
+      }
+
+      if (file.text === undefined) {
+        console.warn(`Failed to download notebook from ${rawUrl}: ${file.status}`)
+        return { problem: { reason: 'http', status: file.status, message: `download failed with HTTP ${file.status}` } }
+      }
+
+      return {
+        modified: true,
+        text: file.text,
+        url,
+        validators: file.validators ?? {},
+        private: isPrivate,
+        authenticated,
+      }
+    } catch (error) {
+      console.warn(`Error downloading notebook from ${rawUrl}:`, error)
+      return error instanceof Error && error.name === 'TimeoutError'
+        ? { problem: { reason: 'timeout', message: `download timed out after ${opts.downloadTimeout} ms` } }
+        : { problem: { reason: 'network', message: `download failed: ${error instanceof Error ? error.message : error}` } }
+    }
+  }
+
+  // Cache notebook locally
+  const cacheNotebook = async (url: string, text: string): Promise<void> => {
+    try {
+      const cachePath = path.join(opts.cacheDir, `${getCacheKey(url)}.ipynb`)
+      await fs.writeFile(cachePath, text)
+    } catch (error) {
+      console.warn(`Failed to cache notebook: ${error}`)
+    }
+  }
+
+  // Load cached notebook, unless it is not the file its manifest recorded
+  const loadCachedNotebook = async (url: string, manifest: CacheManifestEntry | null): Promise<NotebookData | null> => {
+    let data: string
+    try {
+      const cachePath = path.join(opts.cacheDir, `${getCacheKey(url)}.ipynb`)
+      data = await fs.readFile(cachePath, 'utf-8')
+    } catch (error) {
+      return null
+    }
+    if (manifest && manifest.contentHash !== getContentHash(data)) {
+      console.warn(`Cached copy of ${url} does not match its manifest, ignoring it`)
+      return null
+    }
+    return parseNotebook(data, `${url} (cached)`).notebook
+  }
+
+  // Parse, upgrade and validate notebook JSON, logging what is wrong with it
+  const parseNotebook = (text: string, label: string): NotebookLoad => {
+    let raw: any
+    try {
+      raw = JSON.parse(text)
+    } catch (error) {
+      const hint = text.trimStart().startsWith('<')
+        ? 'received an HTML page instead of notebook JSON; does the link point at a web page rather than the raw file?'
+        : `invalid JSON: ${error instanceof Error ? error.message : error}`
+      console.warn(`Invalid notebook ${label}: ${hint}`)
+      return { notebook: null, problem: { reason: 'invalid-json', message: hint } }
+    }
+
+    const { notebook, errors, warnings } = normalizeNotebook(raw)
+    if (errors.length > 0) {
+      console.warn(`Invalid notebook ${label}:\n${errors.map(problem => `  - ${problem}`).join('\n')}`)
+      return { notebook: null, problem: { reason: 'schema', message: `not a valid notebook: ${errors.join('; ')}` } }
+    }
+    if (warnings.length > 0) {
+      console.warn(`Notebook ${label} does not match the nbformat 4 schema, rendering it anyway:\n${warnings.map(problem => `  - ${problem}`).join('\n')}`)
+    }
+    if (notebook) contentHashes.set(notebook, getContentHash(text))
+    return { notebook }
+  }
+
+  // Hash of the file each parsed notebook came from, part of the key of its rendered HTML
+  const contentHashes = new WeakMap<NotebookData, string>()
+
+  // Remote notebooks that could only be downloaded with credentials
+  const privateNotebooks = new WeakSet<NotebookData>()
+
+  // Remote notebooks that could only be downloaded with credentials, whose file is only published with `publishAuthenticatedNotebooks`
+  const authenticatedNotebooks = new WeakSet<NotebookData>()
+
+  // Notebooks loaded during the current build, so each one is read or downloaded once per worker however many
+  // pages embed it
+  const loadedNotebooks = new Map<string, Promise<NotebookLoad>>()
+
+  const loadNotebook = (source: NotebookSource, ctx: BuildCtx): Promise<NotebookLoad> => {
+    const key = `${ctx.buildId}:${source.location}`
+    if (!loadedNotebooks.has(key)) {
+      // Local notebooks are read from disk on every build so edits show up on rebuild;
+      // links no resolver recognizes have nothing to download
+      loadedNotebooks.set(key, source.local
+        ? loadLocalNotebook(source.location)
+        : source.resolved
+          ? loadRemoteNotebook(source.location, source.resolved)
+          : Promise.resolve({ notebook: null, problem: { reason: 'unresolved', message: 'no resolver recognizes this link' } }))
+    }
+    return loadedNotebooks.get(key)!
+  }
+
+  // Check a notebook against the nbformat 4 schema, upgrading nbformat 3 and normalizing multiline strings.
+  // Errors make the notebook unusable; offending cells and outputs behind warnings are dropped.
+  const normalizeNotebook = (raw: any): { notebook: NotebookData | null, errors: string[], warnings: string[] } => {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+    if (!isObject(raw)) {
+      return { notebook: null, errors: ['top level is not a JSON object'], warnings }
+    }
+
+    if (raw.nbformat === 3 || (raw.nbformat === undefined && Array.isArray(raw.worksheets))) {
+      raw = upgradeV3Notebook(raw)
+    } else if (raw.nbformat === undefined) {
+      warnings.push('missing `nbformat`, assuming 4')
+    } else if (raw.nbformat !== 4) {
+      errors.push(`unsupported nbformat ${raw.nbformat}; only versions 3 and 4 can be rendered`)
+    }
+
+    if (!Array.isArray(raw.cells)) {
+      errors.push('`cells` is missing or not an array')
+    }
+    if (raw.metadata !== undefined && !isObject(raw.metadata)) {
+      warnings.push('`metadata` is not an object')
+    }
+    if (errors.length > 0) {
+      return { notebook: null, errors, warnings }
+    }
+
+    const needsIds = (raw.nbformat ?? 4) === 4 && (raw.nbformat_minor ?? 0) >= 5
+    let missingIds = 0
+    const cells: NotebookCell[] = []
+
+    raw.cells.forEach((cell: any, index: number) => {
+      const where = `cell ${index + 1}`
+      if (!isObject(cell)) {
+        warnings.push(`${where} is not an object`)
+        return
+      }
+      if (!['markdown', 'code', 'raw'].includes(cell.cell_type)) {
+        warnings.push(`${where} has unknown cell_type ${JSON.stringify(cell.cell_type)}`)
+        return
+      }
+      if (typeof cell.source !== 'string' && !(Array.isArray(cell.source) && cell.source.every((line: any) => typeof line === 'string'))) {
+        warnings.push(`${where} has no valid \`source\``)
+      }
+      if (needsIds && (typeof cell.id !== 'string' || !/^[a-zA-Z0-9-_]{1,64}$/.test(cell.id))) {
+        missingIds++
+      }
+
+      const normalized: NotebookCell = {
+        ...cell,
+        source: typeof cell.source === 'string' ? cell.source : Array.isArray(cell.source) ? cell.source.join('') : '',
+        metadata: isObject(cell.metadata) ? cell.metadata : {},
+      }
+
+      if (cell.cell_type === 'code') {
+        if (cell.execution_count !== undefined && cell.execution_count !== null && !Number.isInteger(cell.execution_count)) {
+          warnings.push(`${where} has a non-integer execution_count`)
+          normalized.execution_count = null
+        }
+        if (cell.outputs !== undefined && !Array.isArray(cell.outputs)) {
+          warnings.push(`${where} has \`outputs\` that are not an array`)
+        }
+        normalized.outputs = (Array.isArray(cell.outputs) ? cell.outputs : []).filter((output: any, outputIndex: number) => {
+          const problem = validateOutput(output)
+          if (problem) warnings.push(`${where}, output ${outputIndex + 1}: ${problem}`)
+          return !problem
+        })
+      }
+
+      cells.push(normalized)
+    })
+
+    if (missingIds > 0) {
+      warnings.push(`${missingIds} cell(s) lack the \`id\` required since nbformat 4.5`)
+    }
+
+    return {
+      notebook: {
+        cells,
+        metadata: isObject(raw.metadata) ? raw.metadata : {},
+        nbformat: 4,
+        nbformat_minor: raw.nbformat_minor ?? 0,
+      },
+      errors,
+      warnings,
+    }
+  }
+
+  // Describe what is wrong with an output, or return null when it matches the schema
+  const validateOutput = (output: any): string | null => {
+    if (output === null || typeof output !== 'object') return 'not an object'
+
+    switch (output.output_type) {
+      case 'stream':
+        return output.text === undefined ? 'stream output without `text`' : null
+      case 'display_data':
+      case 'execute_result':
+        return output.data === null || typeof output.data !== 'object' ? `${output.output_type} without a \`data\` bundle` : null
+      case 'error':
+        return Array.isArray(output.traceback) ? null : 'error output without a `traceback` list'
+      default:
+        return `unknown output_type ${JSON.stringify(output.output_type)}`
+    }
+  }
+
+  // Convert an nbformat 3 notebook to nbformat 4, following nbformat's own upgrade
+  const upgradeV3Notebook = (raw: any): any => {
+    const mimeTypes: Record<string, string> = {
+      text: 'text/plain',
+      html: 'text/html',
+      svg: 'image/svg+xml',
+      png: 'image/png',
+      jpeg: 'image/jpeg',
+      latex: 'text/latex',
+      json: 'application/json',
+      javascript: 'application/javascript',
+      markdown: 'text/markdown',
+      pdf: 'application/pdf',
+    }
+
+    // v3 stores MIME data and its metadata as top-level keys with short names
+    const upgradeMimeBundle = (output: any) => {
+      const data: Record<string, any> = {}
+      const metadata: Record<string, any> = {}
+      for (const [key, mimeType] of Object.entries(mimeTypes)) {
+        if (output[key] !== undefined) data[mimeType] = output[key]
+        if (output.metadata?.[key] !== undefined) metadata[mimeType] = output.metadata[key]
+      }
+      return { data, metadata }
+    }
+
+    const upgradeOutput = (output: any) => {
+      switch (output.output_type) {
+        case 'pyout':
+          return { output_type: 'execute_result', execution_count: output.prompt_number ?? null, ...upgradeMimeBundle(output) }
+        case 'display_data':
+          return { output_type: 'display_data', ...upgradeMimeBundle(output) }
+        case 'pyerr':
+          return { output_type: 'error', ename: output.ename, evalue: output.evalue, traceback: output.traceback ?? [] }
+        case 'stream':
+          return { output_type: 'stream', name: output.stream ?? 'stdout', text: output.text ?? '' }
+        default:
+          return output
+      }
+    }
+
+    const upgradeCell = (cell: any) => {
+      const metadata = { ...(cell.metadata ?? {}) }
+      if (cell.cell_type === 'code') {
+        if (cell.collapsed !== undefined) metadata.collapsed = cell.collapsed
+        return {
+          cell_type: 'code',
+          metadata,
+          source: cell.input ?? '',
+          execution_count: cell.prompt_number ?? null,
+          outputs: (cell.outputs ?? []).map(upgradeOutput),
+        }
+      }
+      if (cell.cell_type === 'heading') {
+        const text = Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? ''
+        return { cell_type: 'markdown', metadata, source: `${'#'.repeat(cell.level ?? 1)} ${text.replace(/\n/g, ' ')}` }
+      }
+      return { ...cell, metadata }
+    }
+
+    const worksheets: any[] = Array.isArray(raw.worksheets) ? raw.worksheets : []
+    return {
+      metadata: { ...(raw.metadata ?? {}), orig_nbformat: 3 },
+      nbformat: 4,
+      nbformat_minor: 0,
+      cells: worksheets.flatMap(worksheet => (worksheet.cells ?? []).map(upgradeCell)),
+    }
+  }
+
+  // Remember how a notebook was downloaded, for its header actions and whether its file is published
+  const recordAccess = (notebook: NotebookData, access: DownloadAccess) => {
+    if (access.private) {
+      privateNotebooks.add(notebook)
+    } else {
+      privateNotebooks.delete(notebook)
+    }
+    if (access.authenticated) {
+      authenticatedNotebooks.add(notebook)
+    } else {
+      authenticatedNotebooks.delete(notebook)
+    }
+  }
+
+  // Serve a remote notebook from the cache while it is fresh, revalidating it once the TTL expires
+  const loadRemoteNotebook = async (url: string, resolved: ResolvedNotebook): Promise<NotebookLoad> => {
+    const manifest = await readCacheManifest(url)
+    const cached = await loadCachedNotebook(url, manifest)
+    const pinned = manifest?.pinned || opts.pinnedNotebooks.includes(url)
+    const fresh = manifest !== null && Date.now() - manifest.fetchedAt < opts.cacheTtl
+    if (cached) recordAccess(cached, { private: Boolean(manifest?.private), authenticated: Boolean(manifest?.authenticated) })
+
+    if (cached && (pinned || fresh || opts.offline)) {
+      return { notebook: cached }
+    }
+    if (opts.offline || !opts.downloadFromGitHub) {
+      return cached
+        ? { notebook: cached }
+        : { notebook: null, problem: { reason: 'offline', message: 'not in the cache, and downloads are turned off' } }
+    }
+
+    // Only a usable cached copy is revalidated; without one the request is unconditional and fetches the whole file
+    const validators = cached ? manifest : null
+    const result = await downloadNotebook(resolved, validators)
+    if ('problem' in result) {
+      if (cached) console.warn(`Using stale cached copy of ${url}`)
+      return { notebook: cached, problem: result.problem }
+    }
+
+    if (!result.modified) {
+      if (!cached || !validators) {
+        return { notebook: cached, problem: { reason: 'http', status: 304, message: 'the host answered 304 Not Modified to a request without validators' } }
+      }
+      // Unchanged upstream, so only the fetch time and whether it took credentials move forward
+      recordAccess(cached, result)
+      await writeCacheManifest({
+        ...validators,
+        fetchedAt: Date.now(),
+        private: result.private || undefined,
+        authenticated: result.authenticated || undefined,
+      })
+      return { notebook: cached }
+    }
+
+    // Never let a broken download replace a working cached copy
+    const { notebook, problem } = parseNotebook(result.text, url)
+    if (!notebook) {
+      return { notebook: cached, problem }
+    }
+
+    recordAccess(notebook, result)
+    await cacheNotebook(url, result.text)
+    await writeCacheManifest({
+      url,
+      fetchedAt: Date.now(),
+      validators: { [result.url]: result.validators },
+      contentHash: getContentHash(result.text),
+      pinned: manifest?.pinned,
+      private: result.private || undefined,
+      authenticated: result.authenticated || undefined,
+    })
+    return { notebook }
+  }
+
+  // Check whether an href points at a notebook, ignoring query and fragment. Links without the extension,
+  // like gists or Colab's Drive notebooks, are only taken as notebooks when embedded with `![](...)`
+  const isNotebookHref = (href: string, embed = false): boolean => {
+    if (href.split(/[?#]/)[0].endsWith('.ipynb')) return true
+    try {
+      return embed && /^https?:/i.test(href) && resolveRemoteNotebook(href) !== null
+    } catch (error) {
+      return false
+    }
+  }
+
+  // Parse `#cells=1,3-7&cell-id=abc&tags=figure` into a cell selection
+  const parseCellSelection = (fragment: string): CellSelection | undefined => {
+    const params = new URLSearchParams(fragment)
+    const selection: CellSelection = {}
+    const list = (key: string) => (params.get(key) ?? '').split(',').map(item => item.trim()).filter(Boolean)
+
+    const ranges = list('cells')
+      .map((range): [number, number] => {
+        const [start, end] = range.split('-').map(n => parseInt(n, 10))
+        return [start, Number.isNaN(end) || end === undefined ? start : end]
+      })
+      .filter(([start, end]) => !Number.isNaN(start) && !Number.isNaN(end))
+    if (ranges.length > 0) selection.ranges = ranges
+
+    const ids = list('cell-id')
+    if (ids.length > 0) selection.ids = ids
+
+    const tags = list('tags')
+    if (tags.length > 0) selection.tags = tags
+
+    return Object.keys(selection).length > 0 ? selection : undefined
+  }
+
+  // Parse `outputs=false,maxHeight=600` from an embed title or query string into per-embed options
+  const parseEmbedOptions = (text: string, href: string): Partial<EmbedOptions> => {
+    const options: Record<string, unknown> = {}
+    for (const pair of text.split(/[,&]/).filter(item => item.trim())) {
+      const [name, ...rest] = pair.split('=')
+      const key = embedOptionNames[name.trim().toLowerCase()]
+      const value = rest.join('=').trim()
+      if (!key) {
+        console.warn(`Unknown option "${name.trim()}" on notebook embed ${href}`)
+        continue
+      }
+
+      const expected = typeof defaultOptions[key]
+      const parsed = expected === 'boolean' ? { true: true, false: false }[value]
+        : expected === 'number' ? (value !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined)
+        : ['quartz', 'classic', 'compact'].includes(value) ? value : undefined
+      if (parsed === undefined) {
+        console.warn(`Invalid value "${value}" for option ${name.trim()} on notebook embed ${href}`)
+        continue
+      }
+      options[key] = parsed
+    }
+    return options as Partial<EmbedOptions>
+  }
+
+  // Split per-embed options off a query string, keeping parameters that belong to the notebook URL
+  const splitQueryOptions = (target: string, href: string): { target: string, options: Partial<EmbedOptions> } => {
+    const queryIndex = target.indexOf('?')
+    if (queryIndex === -1) return { target, options: {} }
+
+    const params = new URLSearchParams(target.slice(queryIndex + 1))
+    const optionParams = new URLSearchParams()
+    for (const [key, value] of [...params]) {
+      if (embedOptionNames[key.toLowerCase()]) {
+        optionParams.append(key, value)
+        params.delete(key)
+      }
+    }
+
+    const query = params.toString()
+    return {
+      target: target.slice(0, queryIndex) + (query ? `?${query}` : ''),
+      options: parseEmbedOptions(optionParams.toString(), href),
+    }
+  }
+
+  // Links like `../../secrets.ipynb` must not read files outside the content folder into the site
+  const isInContentDir = (filePath: string, contentDir: string): boolean => {
+    const relative = path.relative(path.resolve(contentDir), path.resolve(filePath))
+    return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)
+  }
+
+  // Resolve a notebook href against the file that links to it
+  const resolveNotebookSource = (href: string, contentDir: string, filePath?: string): NotebookSource => {
+    const hashIndex = href.indexOf('#')
+    const selection = hashIndex === -1 ? undefined : parseCellSelection(href.slice(hashIndex + 1))
+    const { target, options } = splitQueryOptions(hashIndex === -1 ? href : href.slice(0, hashIndex), href)
+
+    if (/^[a-z][a-z\d+.-]*:/i.test(target)) {
+      const resolved = resolveRemoteNotebook(target) ?? undefined
+      return { href, local: false, location: target, resolved, selection, options }
+    }
+
+    const relativePath = decodeURIComponent(target.split('?')[0])
+    const baseDir = relativePath.startsWith('/') || !filePath ? contentDir : path.dirname(filePath)
+    const location = path.join(baseDir, relativePath.replace(/^\/+/, ''))
+    if (!isInContentDir(location, contentDir)) {
+      throw new Error(`${relativePath} is outside the content folder`)
+    }
+    return { href, local: true, location, selection, options }
+  }
+
+  // Find the notebook a link names the way CrawlLinks finds linked notes, as a path from the content folder
+  const resolveWikilinkTarget = (target: string, ctx: BuildCtx): string => {
+    const files: string[] = ctx.allFiles ?? []
+    if (opts.markdownLinkResolution === 'absolute') {
+      return `/${target.replace(/^\/+/, '')}`
+    }
+    if (opts.markdownLinkResolution === 'shortest' && !target.includes('/')) {
+      const matches = files.filter(file => path.posix.basename(file) === target)
+      if (matches.length === 1) return `/${matches[0]}`
+    }
+    return target
+  }
+
+  // `![[notebook.ipynb#cells=1-3|options]]`, or a plain link without the `!`
+  const notebookWikilinkRegex = /(!?)\[\[([^\[\]|#\\]+\.ipynb)(#[^\[\]|\\]*)?(?:\\?\|([^\[\]]*))?\]\]/g
+
+  // Split markdown around code blocks and inline code, which end up at the odd indices
+  const splitCode = (src: string): string[] => src.split(/(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/)
+
+  // Rewrite `![[notebook.ipynb|options]]` into an image embed before Obsidian-flavored Markdown turns
+  // it into a plain link, so both embed syntaxes reach the HTML as an <img> with the options as title
+  const transformWikilinkEmbeds = (src: string, ctx: BuildCtx): string => {
+    // Leave code blocks and inline code alone
+    return splitCode(src).map((part, i) => {
+      if (i % 2 === 1) return part
+      return part.replace(notebookWikilinkRegex, (match, embed: string, target: string, fragment = '', alias = '') => {
+        if (!embed) return match
+        const title = alias.replace(/["\\]/g, '\\$&')
+        const alt = alias && !alias.includes('=') ? alias : path.basename(target)
+        return `![${alt}](<${resolveWikilinkTarget(target.trim(), ctx)}${fragment}>${title ? ` "${title}"` : ''})`
+      })
+    }).join('')
+  }
+
+  // Notebook wikilinks of a note as written. ObsidianFlavoredMarkdown slugs their fragments before the text
+  // reaches this plugin, so `#cells=3-7` arrives as `#cells3-7`. Frontmatter, comments and code are left
+  // out, so the wikilinks line up in order with the links and images parsed from the note
+  const readNotebookWikilinks = async (filePath: string, ctx: BuildCtx): Promise<Array<{ embed: boolean, target: string, fragment: string }>> => {
+    const src = (await fs.readFile(filePath, 'utf8'))
+      .replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '')
+      .replace(/%%[\s\S]*?%%/g, '')
+    return splitCode(src)
+      .filter((_part, i) => i % 2 === 0)
+      .flatMap(part => [...part.matchAll(notebookWikilinkRegex)])
+      .map(([, embed, target, fragment = '']) => ({
+        embed: embed === '!',
+        // Embeds were resolved by `transformWikilinkEmbeds`, links are still as written
+        target: embed ? resolveWikilinkTarget(target.trim(), ctx) : target.trim(),
+        fragment,
+      }))
+  }
+
+  // Resolve a local href like a wikilink target, keeping its query and fragment
+  const resolveLocalHref = (href: string, ctx: BuildCtx): string => {
+    if (/^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith('/')) return href
+    const [, linkPath, rest] = href.match(/^([^?#]*)(.*)$/s)!
+    try {
+      const target = decodeURIComponent(linkPath)
+      const resolved = resolveWikilinkTarget(target, ctx)
+      return resolved === target ? href : `${encodeURI(resolved)}${rest}`
+    } catch (error) {
+      return href
+    }
+  }
+
+  // Record every notebook href as written on its element, for the HTML step to read. This plugin runs after
+  // CrawlLinks, which slugifies paths, queries and fragments of links, so `My Analysis.ipynb?code=false`
+  // would arrive as `My-Analysis.ipynbcode=false`. Local hrefs are resolved the way CrawlLinks would
+  const keepNotebookHrefs = (ctx: BuildCtx) => () => async (tree: MdastRoot, file: VFile) => {
+    const nodes: Array<Image | Link> = []
+    visit(tree, ['image', 'link'], (node) => {
+      const link = node as Image | Link
+      if (isNotebookHref(link.url, link.type === 'image')) nodes.push(link)
+    })
+    if (nodes.length === 0) return
+
+    // Only fragments are lost, so the note itself is only read when a notebook link has one
+    const hasFragment = nodes.some(node => node.url.includes('#'))
+    const wikilinks = hasFragment && file.data.filePath ? await readNotebookWikilinks(file.data.filePath, ctx) : []
+    const embeds = wikilinks.filter(wikilink => wikilink.embed)
+    const links = wikilinks.filter(wikilink => !wikilink.embed)
+
+    for (const node of nodes) {
+      const pending = node.type === 'image' ? embeds : links
+      const hashIndex = node.url.indexOf('#')
+      const linkPath = hashIndex === -1 ? node.url : node.url.slice(0, hashIndex)
+      // Wikilinks are used up in order, matched by their path and the slug ObsidianFlavoredMarkdown made of
+      // their fragment; markdown links match none and keep their href
+      const fragment = hashIndex === -1 ? '' : node.url.slice(hashIndex)
+      const index = pending.findIndex(wikilink =>
+        wikilink.target === linkPath && fragment === (wikilink.fragment && `#${slugify(wikilink.fragment.slice(1))}`))
+      let href = node.url
+      if (index !== -1) {
+        href = `${linkPath}${pending[index].fragment}`
+        pending.splice(0, index + 1)
+      }
+      node.data = { ...node.data, hProperties: { ...node.data?.hProperties, dataNotebookHref: resolveLocalHref(href, ctx) } }
+    }
+  }
+
+  // Jupyter/JupyterBook tags stored in cell metadata
+  const getCellTags = (cell: NotebookCell): string[] => {
+    const tags = cell.metadata?.tags
+    return Array.isArray(tags) ? tags : []
+  }
+
+  // Pick the cells to render, keeping their original index for stable anchors
+  const selectCells = (cells: NotebookCell[], selection?: CellSelection): Array<{ cell: NotebookCell, index: number }> => {
+    return cells
+      .map((cell, index) => ({ cell, index }))
+      .filter(({ cell, index }) => {
+        const tags = getCellTags(cell)
+        if (tags.includes('remove-cell')) return false
+        if (!selection) return true
+
+        // Every criterion given in the fragment has to match
+        if (selection.ranges && !selection.ranges.some(([start, end]) => index + 1 >= start && index + 1 <= end)) {
+          return false
+        }
+        if (selection.ids && !selection.ids.includes(cell.id ?? '')) return false
+        if (selection.tags && !selection.tags.some(tag => tags.includes(tag))) return false
+        return true
+      })
+  }
+
+  // Load notebook from the content directory
+  const loadLocalNotebook = async (filePath: string): Promise<NotebookLoad> => {
+    let data: string
+    try {
+      data = await fs.readFile(filePath, 'utf-8')
+    } catch (error) {
+      console.warn(`Failed to read local notebook ${filePath}:`, error)
+      return { notebook: null, problem: { reason: 'missing', message: `cannot read ${filePath}` } }
+    }
+    return parseNotebook(data, filePath)
+  }
+
+  // Notebook-wide language from the kernel metadata
+  const getNotebookLanguage = (notebook: NotebookData): string => {
+    const language = notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? 'python'
+    const normalized = String(language).toLowerCase()
+    return languageAliases[normalized] ?? normalized
+  }
+
+  // Per-cell language, honoring VS Code's language id and `%%bash`-style cell magics
+  const getCellLanguage = (cell: NotebookCell, source: string, renderCtx: RenderContext): string => {
+    const languageId = cell.metadata?.vscode?.languageId
+    if (typeof languageId === 'string') {
+      return languageAliases[languageId.toLowerCase()] ?? languageId.toLowerCase()
+    }
+
+    const magic = source.match(/^\s*%%(\w+)/)
+    if (magic) {
+      const language = cellMagicLanguages[magic[1].toLowerCase()]
+      if (language) return language
+    }
+
+    return renderCtx.language
+  }
+
+  // Highlighter shared by every code cell so Shiki is only loaded once
+  const codeOptions: CodeOptions = { theme: opts.highlightTheme || undefined, keepBackground: false }
+  const codeHighlighter = opts.highlightTheme ? unified().use(rehypePrettyCode, codeOptions) : null
+
+  // The site's `SyntaxHighlighting` for `highlightTheme: false`, set up once per build. It runs before this
+  // plugin, so it never sees code cells on the page by itself
+  const siteCodeHighlighters = new Map<string, ReturnType<typeof unified> | null>()
+
+  const getCodeHighlighter = (ctx: BuildCtx) => {
+    if (codeHighlighter) return codeHighlighter
+
+    const key = `${ctx.buildId}:code`
+    if (!siteCodeHighlighters.has(key)) {
+      const transformers: QuartzTransformerPluginInstance[] = ctx.cfg.plugins.transformers
+      const siteHighlighting = transformers.find(transformer => transformer.name === 'SyntaxHighlighting')
+      siteCodeHighlighters.set(key, siteHighlighting?.htmlPlugins ? unified().use(siteHighlighting.htmlPlugins(ctx)) : null)
+    }
+    return siteCodeHighlighters.get(key)!
+  }
+
+  // Highlight code the same way Quartz's SyntaxHighlighting transformer does
+  const highlightCode = async (source: string, language: string, lineNumbers: boolean, ctx: BuildCtx): Promise<string> => {
+    const fallback = `<pre><code class="language-${escapeHtml(language)}"${lineNumbers ? ' data-line-numbers' : ''}>${escapeHtml(source)}</code></pre>`
+    const highlighter = getCodeHighlighter(ctx)
+    if (!highlighter) return fallback
+
+    try {
+      const tree: Root = {
+        type: 'root',
+        children: [{
+          type: 'element',
+          tagName: 'pre',
+          properties: {},
+          children: [{
+            type: 'element',
+            tagName: 'code',
+            properties: { className: [`language-${language}`] },
+            data: { meta: lineNumbers ? 'showLineNumbers' : '' },
+            children: [{ type: 'text', value: source.replace(/\n$/, '') }],
+          }],
+        }],
+      } as Root
+      return toHtml(await highlighter.run(tree) as Root)
+    } catch (error) {
+      console.warn(`Error highlighting ${language} code:`, error)
+      return fallback
+    }
+  }
+
+  // Convert notebook cell to HTML
+  const cellToHtml = async (cell: NotebookCell, index: number, renderCtx: RenderContext): Promise<string> => {
+    // nbformat 4.5 ids survive edits to the notebook, so anchors to a cell keep working
+    const cellKey = cell.id && /^[a-zA-Z0-9-_]{1,64}$/.test(cell.id) ? cell.id : String(index + 1)
+    const cellId = `${renderCtx.anchorPrefix}-cell-${cellKey}`
+    const tags = getCellTags(cell)
+    let content = ''
+
+    if (cell.cell_type === 'markdown') {
+      const source = cell.source
+      content = `<div class="${prefix}-markdown-cell">${await markdownToHtml(source, renderCtx, cell.attachments)}</div>`
+    } else if (cell.cell_type === 'code') {
+      const source = cell.source
+      const executionCount = cell.execution_count
+
+      // Create execution count display
+      let executionLabel = ''
+      if (renderCtx.options.inputLabels) {
+        executionLabel = executionCount !== null && executionCount !== undefined
+          ? `In [${executionCount}]:`
+          : 'In [ ]:'
+      }
+
+      // Use normal code block styling with execution count
+      let codeBlock = ''
+      if (renderCtx.options.code && !tags.includes('remove-input')) {
+        const sourceHidden = cell.metadata?.jupyter?.source_hidden === true
+        codeBlock = `
+        <div class="${prefix}-code-input"${sourceHidden ? ' data-collapsed="true"' : ''}>
+          <div class="${prefix}-execution-count">${executionLabel}</div>
+          <div class="${prefix}-code-content">
+            ${await highlightCode(source, getCellLanguage(cell, source, renderCtx), renderCtx.options.lineNumbers, renderCtx.ctx)}
+          </div>
+        </div>`
+
+        if (tags.includes('hide-input')) {
+          codeBlock = `<details class="${prefix}-hidden-input"><summary>Show code</summary>${codeBlock}</details>`
+        }
+      }
+
+      let outputsHtml = ''
+      if (renderCtx.options.outputs && cell.outputs && cell.outputs.length > 0 && !tags.includes('remove-output')) {
+        // Add output execution count
+        let outputLabel = ''
+        if (renderCtx.options.outputLabels) {
+          outputLabel = executionCount !== null && executionCount !== undefined
+            ? `Out[${executionCount}]:`
+            : 'Out[ ]:'
+        }
+
+        // nbformat 4 stores this in `jupyter.outputs_hidden`, older notebooks in `collapsed`
+        const outputsHidden = cell.metadata?.jupyter?.outputs_hidden === true || cell.metadata?.collapsed === true
+        outputsHtml = `<div class="${prefix}-outputs"${outputsHidden ? ' data-collapsed="true"' : ''}>
+          <div class="${prefix}-output-label">${outputLabel}</div>
+          <div class="${prefix}-output-content">`
+
+        for (const output of mergeStreamOutputs(cell.outputs)) {
+          outputsHtml += await formatOutput(output, renderCtx)
+        }
+        outputsHtml += '</div></div>'
+
+        if (tags.includes('hide-output')) {
+          outputsHtml = `<details class="${prefix}-hidden-output"><summary>Show output</summary>${outputsHtml}</details>`
+        }
+      }
+
+      // Nothing left to show once both input and output are removed
+      if (!codeBlock && !outputsHtml) {
+        return ''
+      }
+
+      content = `${codeBlock}${outputsHtml}`
+    } else if (cell.cell_type === 'raw') {
+      if (!renderCtx.options.rawCells) {
+        return ''
+      }
+      content = await rawCellToHtml(cell, renderCtx)
+    }
+
+    return `<div id="${cellId}" class="${prefix}-cell ${prefix}-${cell.cell_type}-cell">${content}</div>`
+  }
+
+  // Render a raw cell according to the format it targets in nbconvert
+  const rawCellToHtml = async (cell: NotebookCell, renderCtx: RenderContext): Promise<string> => {
+    const shortFormats: Record<string, string> = {
+      html: 'text/html',
+      markdown: 'text/markdown',
+      rst: 'text/restructuredtext',
+      'text/x-rst': 'text/restructuredtext',
+      latex: 'text/latex',
+    }
+    const declared = String(cell.metadata?.format ?? cell.metadata?.raw_mimetype ?? '').toLowerCase()
+    const format = shortFormats[declared] ?? declared
+    const source = cell.source
+
+    if (format === 'text/html') {
+      return `<div class="${prefix}-raw-html">${sanitizeHtml(source, renderCtx)}</div>`
+    }
+    if (format === 'text/markdown' || format === 'text/restructuredtext') {
+      return `<div class="${prefix}-raw-text" data-format="${escapeHtml(format)}">${escapeHtml(source)}</div>`
+    }
+    if (format === 'text/latex') {
+      return `<div class="${prefix}-raw-latex">${await markdownToHtml(latexToMarkdown(source), renderCtx)}</div>`
+    }
+    return `<div class="${prefix}-raw-preformatted"><pre>${escapeHtml(source)}</pre></div>`
+  }
+
+  // LaTeX from raw cells and outputs is often bare math, so add display delimiters unless it brings its own
+  const latexToMarkdown = (latex: string): string => {
+    return latex.trimStart().startsWith('$') ? latex : `$$\n${latex}\n$$`
+  }
+
+  // The site's `Latex` transformer, unless math is configured for notebooks separately
+  const getSiteLatex = (ctx: BuildCtx): QuartzTransformerPluginInstance | undefined => {
+    const transformers: QuartzTransformerPluginInstance[] = ctx.cfg.plugins.transformers
+    return transformers.find(transformer => transformer.name === 'Latex')
+  }
+
+  // Rehype plugins that turn remark-math nodes into equations, matching the engine and macros of the notes
+  const getMathPlugins = (ctx: BuildCtx): PluggableList => {
+    if (opts.math === false) return []
+
+    const siteLatex = getSiteLatex(ctx)
+    if (opts.math === 'site' && siteLatex?.htmlPlugins) {
+      return siteLatex.htmlPlugins(ctx)
+    }
+    return opts.math === 'mathjax'
+      ? [[rehypeMathjax, { tex: { macros: opts.mathMacros } }]]
+      : [[rehypeKatex, { output: 'html', macros: opts.mathMacros }]]
+  }
+
+  // Site transformers that markdown cells go through, in the site's order
+  const getMarkdownTransformers = (ctx: BuildCtx): QuartzTransformerPluginInstance[] => {
+    if (opts.markdown !== 'site') return []
+
+    const transformers: QuartzTransformerPluginInstance[] = ctx.cfg.plugins.transformers
+    return transformers.filter(transformer => !pageTransformers.includes(transformer.name))
+  }
+
+  // Markdown features in front of HTML conversion, mirroring Quartz's own Markdown processor
+  const getMarkdownPlugins = (ctx: BuildCtx): PluggableList => {
+    if (opts.markdown === 'builtin') {
+      return [remarkBreaks, remarkFrontmatter, remarkGfm, remarkMath, remarkSmartypants]
+    }
+
+    const siteLatex = getSiteLatex(ctx)
+    return [
+      remarkFrontmatter,
+      ...getMarkdownTransformers(ctx).flatMap(transformer => transformer.markdownPlugins?.(ctx) ?? []),
+      ...(siteLatex?.markdownPlugins?.(ctx) ?? [remarkMath]),
+    ]
+  }
+
+  // The embed and cell each markdown file being processed belongs to, for the shared processor's own steps
+  const markdownCells = new WeakMap<VFile, { renderCtx: RenderContext, attachments?: NotebookCell['attachments'] }>()
+
+  // Markdown processor of the current build, with the site's transformers set up once rather than per cell
+  const markdownProcessors = new Map<string, { processor: ReturnType<typeof createMarkdownProcessor>, transformers: QuartzTransformerPluginInstance[] }>()
+
+  const createMarkdownProcessor = (ctx: BuildCtx, transformers: QuartzTransformerPluginInstance[]) => {
+    return unified()
+      .use(remarkParse)
+      .use(getMarkdownPlugins(ctx))
+      .use(remarkRehype, { allowDangerousHtml: true })
+      .use(rehypeRaw)
+      .use(() => async (tree: Root, file: VFile) => {
+        const { renderCtx, attachments } = markdownCells.get(file)!
+        await resolveMarkdownImages(tree, renderCtx, attachments)
+      })
+      .use(() => (tree: Root, file: VFile) => sanitize(tree, getSanitizeSchema(markdownCells.get(file)!.renderCtx)) as Root)
+      // Site HTML plugins and equations run after sanitizing; their markup comes from Quartz, not the notebook.
+      // LinkProcessing would take the image URLs resolved above for paths in the content folder, so they are
+      // set aside while the site's plugins run
+      .use(() => (tree: Root) => keepImageSources(tree))
+      .use(transformers.flatMap(transformer => transformer.htmlPlugins?.(ctx) ?? []))
+      .use(() => (tree: Root) => restoreImageSources(tree))
+      .use(getMathPlugins(ctx))
+      .use(rehypeStringify)
+  }
+
+  const getMarkdownProcessor = (ctx: BuildCtx) => {
+    const key = `${ctx.buildId}:markdown`
+    if (!markdownProcessors.has(key)) {
+      const transformers = getMarkdownTransformers(ctx)
+      markdownProcessors.set(key, { processor: createMarkdownProcessor(ctx, transformers), transformers })
+    }
+    return markdownProcessors.get(key)!
+  }
+
+  // Convert a markdown cell to HTML, with the site's Markdown features when `markdown` is `site`
+  const markdownToHtml = async (markdown: string, renderCtx: RenderContext, attachments?: NotebookCell['attachments']): Promise<string> => {
+    try {
+      const { ctx } = renderCtx
+      const { processor, transformers } = getMarkdownProcessor(ctx)
+      const text = transformers.reduce((current, transformer) => transformer.textTransform?.(ctx, current) ?? current, markdown)
+
+      // Transformers resolve links against the page, but record data like LinkProcessing's links on their own file
+      const { slug, filePath, relativePath } = renderCtx.page
+      const file = new VFile({ value: text, data: { slug, filePath, relativePath } })
+      markdownCells.set(file, { renderCtx, attachments })
+      const result = await processor.process(file)
+      for (const link of result.data.links ?? []) {
+        renderCtx.links.add(link)
+      }
+      return String(result.value)
+    } catch (error) {
+      console.warn('Error processing markdown with remark:', error)
+      // Fallback to plain text wrapped in paragraph
+      return `<p>${escapeHtml(markdown)}</p>`
+    }
+  }
+
+  // Copy every image URL to a data attribute that the site's HTML plugins leave alone
+  const keepImageSources = (tree: Root) => {
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName === 'img' && typeof node.properties?.src === 'string') {
+        node.properties.dataNotebookSrc = node.properties.src
+      }
+    })
+  }
+
+  // Put the image URLs set aside by `keepImageSources` back
+  const restoreImageSources = (tree: Root) => {
+    visit(tree, 'element', (node: Element) => {
+      if (node.properties?.dataNotebookSrc === undefined) return
+      if (node.tagName === 'img') {
+        node.properties.src = String(node.properties.dataNotebookSrc)
+      }
+      delete node.properties.dataNotebookSrc
+    })
+  }
+
+  // Point `attachment:` images at the cell's attachments and relative images at the notebook's location
+  const resolveMarkdownImages = async (tree: Root, renderCtx: RenderContext, attachments?: NotebookCell['attachments']): Promise<void> => {
+    const images: Element[] = []
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName === 'img' && typeof node.properties?.src === 'string') {
+        images.push(node)
+      }
+    })
+
+    await Promise.all(images.map(async (image) => {
+      const src = image.properties.src as string
+      try {
+        const resolved = await resolveImageSource(src, renderCtx, attachments)
+        if (resolved) image.properties.src = resolved
+      } catch (error) {
+        console.warn(`Failed to resolve image ${src} in notebook ${renderCtx.source.href}:`, error)
+      }
+    }))
+  }
+
+  const resolveImageSource = async (src: string, renderCtx: RenderContext, attachments?: NotebookCell['attachments']): Promise<string | null> => {
+    if (src.startsWith('attachment:')) {
+      const bundle = attachments?.[decodeURIComponent(src.slice('attachment:'.length))]
+      const mimeType = Object.keys(bundle ?? {}).find(type => imageExtensions[type])
+      if (!bundle || !mimeType) return null
+
+      const data = joinText(bundle[mimeType])
+      const content = mimeType === 'image/svg+xml' ? Buffer.from(data) : Buffer.from(data.replace(/\s/g, ''), 'base64')
+      return imageSource(content, mimeType, renderCtx)
+    }
+
+    // Absolute URLs, data URIs and in-page anchors are left alone
+    if (/^[a-z][a-z\d+.-]*:/i.test(src) || src.startsWith('//') || src.startsWith('#')) {
+      return null
+    }
+
+    const { source } = renderCtx
+    if (!source.local) {
+      return new URL(src, source.resolved?.rawUrl ?? source.location).toString()
+    }
+
+    // Images next to a vault notebook are emitted like output images
+    const relativePath = decodeURIComponent(src.split(/[?#]/)[0])
+    const imagePath = relativePath.startsWith('/')
+      ? path.join(renderCtx.ctx.argv.directory, relativePath)
+      : path.join(path.dirname(source.location), relativePath)
+    const extension = path.extname(imagePath).slice(1).toLowerCase()
+    const mimeType = Object.keys(imageExtensions).find(type => imageExtensions[type] === extension)
+      ?? (extension === 'jpeg' ? 'image/jpeg' : undefined)
+    if (!mimeType) return null
+    if (!isInContentDir(imagePath, renderCtx.ctx.argv.directory)) {
+      console.warn(`Skipping image ${src} in notebook ${source.href}: it is outside the content folder`)
+      return null
+    }
+
+    return imageSource(await fs.readFile(imagePath), mimeType, renderCtx)
+  }
+
+  // Pick the allowlist for a notebook based on where it came from
+  const getSanitizeSchema = (renderCtx: RenderContext): Schema => {
+    return renderCtx.trusted ? opts.trustedSanitizeSchema : opts.sanitizeSchema
+  }
+
+  // Decide whether a notebook's HTML may use the relaxed schema
+  const isTrustedSource = (source: NotebookSource): boolean => {
+    if (source.local) return opts.trustLocalNotebooks
+
+    const hostname = new URL(source.location).hostname
+    return opts.trustedHosts.some(host => matchesHost(hostname, host))
+  }
+
+  // Parse notebook-provided HTML and strip everything the allowlist does not permit
+  const sanitizeHtml = (html: string, renderCtx: RenderContext): string => {
+    const tree = fromHtml(html, { fragment: true })
+    return toHtml(sanitize(tree, getSanitizeSchema(renderCtx)))
+  }
+
+  // Multiline notebook strings may be stored as a list of lines
+  const joinText = (value: string | string[]): string => {
+    return Array.isArray(value) ? value.join('') : value
+  }
+
+  // Record an asset under a content-hashed name for the `NotebookAssets` emitter and return its URL relative to the page
+  const emitAsset = (content: Buffer, extension: string, renderCtx: RenderContext): string => {
+    const assetPath = joinSegments(opts.assetDir, `${createHash('sha256').update(content).digest('hex').slice(0, 16)}.${extension}`)
+    renderCtx.assets.set(assetPath, content)
+    return joinSegments(renderCtx.assetBase, assetPath)
+  }
+
+  // URL for image bytes, either an emitted asset or a data URI depending on `imageMode`
+  const imageSource = async (content: Buffer, mimeType: string, renderCtx: RenderContext): Promise<string> => {
+    return opts.imageMode === 'asset' && writesAssets(renderCtx.ctx)
+      ? emitAsset(content, imageExtensions[mimeType] ?? 'bin', renderCtx)
+      : `data:${mimeType};base64,${content.toString('base64')}`
+  }
+
+  // Build an <img> for image bytes, honoring the size recorded in the output metadata
+  const renderImage = async (content: Buffer, mimeType: string, output: any, renderCtx: RenderContext): Promise<string> => {
+    const src = await imageSource(content, mimeType, renderCtx)
+
+    const metadata = output.metadata?.[mimeType] ?? {}
+    const size = ['width', 'height']
+      .filter(dimension => typeof metadata[dimension] === 'number')
+      .map(dimension => ` ${dimension}="${metadata[dimension]}"`)
+      .join('')
+
+    return `<div class="${prefix}-image-output"><img src="${escapeHtml(src)}" alt="Plot output" loading="lazy"${size} /></div>`
+  }
+
+  // Render a base64 encoded image output
+  const imageRenderer = (mimeType: string): MimeRenderer => (data, output, renderCtx) => {
+    const base64 = joinText(data).replace(/\s/g, '')
+    return renderImage(Buffer.from(base64, 'base64'), mimeType, output, renderCtx)
+  }
+
+  // Render JSON as a tree of collapsible <details> blocks
+  const jsonToHtml = (value: any, key?: string, depth = 0): string => {
+    const label = key !== undefined ? `<span class="${prefix}-json-key">${escapeHtml(key)}</span>: ` : ''
+
+    if (value !== null && typeof value === 'object') {
+      const isArray = Array.isArray(value)
+      const entries: Array<[string, any]> = isArray
+        ? value.map((item: any, i: number) => [String(i), item])
+        : Object.entries(value)
+      const preview = isArray ? `Array(${entries.length})` : `{${entries.length}}`
+      const children = entries
+        .map(([childKey, child]) => `<li>${jsonToHtml(child, childKey, depth + 1)}</li>`)
+        .join('')
+      return `<details${depth < 1 ? ' open' : ''}><summary>${label}<span class="${prefix}-json-preview">${preview}</span></summary><ul>${children}</ul></details>`
+    }
+
+    const type = value === null ? 'null' : typeof value
+    return `${label}<span class="${prefix}-json-${type}">${escapeHtml(JSON.stringify(value))}</span>`
+  }
+
+  const outputScripts = { ...defaultOutputScripts, ...opts.outputScripts }
+
+  // Static stand-in for an interactive output: an image from the same bundle if it has one, else its text
+  const staticFallback = async (output: any, renderCtx: RenderContext): Promise<string> => {
+    for (const mimeType of ['image/png', 'image/jpeg', 'image/svg+xml', 'text/plain']) {
+      const data = output.data[mimeType]
+      if (data !== undefined) return mimeRenderers[mimeType](data, output, renderCtx)
+    }
+    return ''
+  }
+
+  // Library scripts downloaded during the current build
+  const loadedOutputScripts = new Map<string, Promise<Buffer | null>>()
+
+  const loadOutputScript = (url: string, ctx: BuildCtx): Promise<Buffer | null> => {
+    const key = `${ctx.buildId}:${url}`
+    if (!loadedOutputScripts.has(key)) {
+      loadedOutputScripts.set(key, downloadOutputScript(url))
+    }
+    return loadedOutputScripts.get(key)!
+  }
+
+  // Download a library script into the cache once; the URLs are versioned, so cached copies are never revalidated
+  const downloadOutputScript = async (url: string): Promise<Buffer | null> => {
+    const cachePath = path.join(opts.cacheDir, 'scripts', `${getCacheKey(url)}.js`)
+    try {
+      return await fs.readFile(cachePath)
+    } catch (error) {
+      // Not cached yet
+    }
+
+    if (opts.offline) {
+      console.warn(`Script ${url} is not in the cache, so its outputs keep their static fallback`)
+      return null
+    }
+    try {
+      const content = await withHostLimit(url, async () => {
+        const response = await fetchWithRetry(url, {})
+        if (!response.ok) {
+          await response.body?.cancel()
+          console.warn(`Failed to download script ${url}: ${response.status}`)
+          return null
+        }
+        return Buffer.from(await response.arrayBuffer())
+      })
+      if (content) {
+        await fs.mkdir(path.dirname(cachePath), { recursive: true })
+        await fs.writeFile(cachePath, content)
+      }
+      return content
+    } catch (error) {
+      console.warn(`Error downloading script ${url}:`, error)
+      return null
+    }
+  }
+
+  // URLs of a library's scripts relative to the page, or null when one of them is unavailable
+  const getScriptUrls = async (scripts: string[], renderCtx: RenderContext): Promise<string[] | null> => {
+    const urls: string[] = []
+    for (const src of scripts) {
+      if (!/^https?:\/\//i.test(src)) {
+        urls.push(joinSegments(renderCtx.assetBase, src.replace(/^\/+/, '')))
+        continue
+      }
+      const content = await loadOutputScript(src, renderCtx.ctx)
+      if (!content) return null
+      urls.push(emitAsset(content, 'js', renderCtx))
+    }
+    return urls
+  }
+
+  // Placeholder drawn by the interactive output script; the fallback stays if the library never loads
+  const interactiveOutput = async (library: OutputLibrary, payload: unknown, output: any, renderCtx: RenderContext, scripts = outputScripts[library]): Promise<string> => {
+    const fallback = await staticFallback(output, renderCtx)
+    const urls = await getScriptUrls(scripts, renderCtx)
+    if (!urls) return fallback
+
+    renderCtx.usesInteractiveOutputs = true
+    return `<div class="${prefix}-interactive-output" data-library="${library}" data-scripts="${escapeHtml(JSON.stringify(urls))}" data-payload="${escapeHtml(JSON.stringify(payload))}"><div class="${prefix}-interactive-fallback">${fallback}</div></div>`
+  }
+
+  // Outputs drawn in the browser need trust, and their scripts are assets like images
+  const drawsInteractiveOutputs = (renderCtx: RenderContext): boolean => {
+    return opts.interactiveOutputs && renderCtx.trusted && writesAssets(renderCtx.ctx)
+  }
+
+  // Plotly figures and Vega specs can fetch data and run expressions in the browser, so only trusted notebooks get them
+  const specRenderer = (library: OutputLibrary): MimeRenderer => (data, output, renderCtx) => {
+    return drawsInteractiveOutputs(renderCtx) ? interactiveOutput(library, data, output, renderCtx) : staticFallback(output, renderCtx)
+  }
+
+  // Bokeh ships a script that embeds the document into the element of its `text/html` representation
+  const bokehRenderer: MimeRenderer = (_data, output, renderCtx) => {
+    const code = joinText(output.data['application/javascript'] ?? '')
+    const elementId = joinText(output.data['text/html'] ?? '').match(/id="([^"]+)"/)?.[1]
+    const version = code.match(/"version"\s*:\s*"([^"]+)"/)?.[1]
+    // The script comes from the notebook, so it only runs for trusted ones
+    if (!drawsInteractiveOutputs(renderCtx) || !elementId || !version) {
+      return staticFallback(output, renderCtx)
+    }
+
+    const scripts = outputScripts.bokeh.map(src => src.replaceAll('{version}', version))
+    return interactiveOutput('bokeh', { code, elementId }, output, renderCtx, scripts)
+  }
+
+  // Widgets are drawn from the state Jupyter saved in the notebook metadata
+  const widgetRenderer: MimeRenderer = (data, output, renderCtx) => {
+    const state = renderCtx.notebook.metadata?.widgets?.['application/vnd.jupyter.widget-state+json']
+    // Widget state may name any npm package to load, so only trusted notebooks get live widgets
+    if (!drawsInteractiveOutputs(renderCtx) || !state?.state?.[data?.model_id]) {
+      return staticFallback(output, renderCtx)
+    }
+
+    renderCtx.usesWidgets = true
+    return interactiveOutput('widgets', data, output, renderCtx)
+  }
+
+  // Built-in renderers for the MIME types Jupyter front ends commonly display
+  const builtinMimeRenderers: Record<string, MimeRenderer> = {
+    'text/plain': (data) => `<div class="${prefix}-text-output"><pre>${escapeHtml(joinText(data))}</pre></div>`,
+    'text/html': (data, _output, renderCtx) => `<div class="${prefix}-html-output">${sanitizeHtml(joinText(data), renderCtx)}</div>`,
+    'text/markdown': async (data, _output, renderCtx) => `<div class="${prefix}-markdown-output">${await markdownToHtml(joinText(data), renderCtx)}</div>`,
+    'text/latex': async (data, _output, renderCtx) => `<div class="${prefix}-latex-output">${await markdownToHtml(latexToMarkdown(joinText(data)), renderCtx)}</div>`,
+    'image/png': imageRenderer('image/png'),
+    'image/jpeg': imageRenderer('image/jpeg'),
+    'image/gif': imageRenderer('image/gif'),
+    // Embedded as an image so scripts inside the SVG never run on the page
+    'image/svg+xml': (data, output, renderCtx) => renderImage(Buffer.from(joinText(data)), 'image/svg+xml', output, renderCtx),
+    'application/json': (data) => `<div class="${prefix}-json-output">${jsonToHtml(data)}</div>`,
+    'application/vnd.plotly.v1+json': specRenderer('plotly'),
+    'application/vnd.vegalite.v5+json': specRenderer('vega'),
+    'application/vnd.vegalite.v4+json': specRenderer('vega'),
+    'application/vnd.vegalite.v3+json': specRenderer('vega'),
+    'application/vnd.vega.v5+json': specRenderer('vega'),
+    'application/vnd.vega.v4+json': specRenderer('vega'),
+    'application/vnd.bokehjs_exec.v0+json': bokehRenderer,
+    // BokehJS is loaded on demand, so the notebook's own loader output has nothing left to show
+    'application/vnd.bokehjs_load.v0+json': () => `<div class="${prefix}-bokeh-load" hidden></div>`,
+    'application/vnd.jupyter.widget-view+json': widgetRenderer,
+    'application/javascript': (data) => {
+      if (!opts.allowJavascript) return ''
+      return `<div class="${prefix}-javascript-output"><script>${joinText(data)}</script></div>`
+    },
+  }
+
+  const mimeRenderers: Record<string, MimeRenderer> = { ...builtinMimeRenderers, ...opts.mimeRenderers }
+
+  // User-registered MIME types missing from the priority list are preferred over built-in ones
+  const displayPriority = [
+    ...Object.keys(opts.mimeRenderers).filter(mimeType => !opts.displayPriority.includes(mimeType)),
+    ...opts.displayPriority,
+  ]
+
+  // Render the richest representation of a MIME bundle
+  const renderMimeBundle = async (output: any, renderCtx: RenderContext): Promise<string> => {
+    for (const mimeType of displayPriority) {
+      const data = output.data[mimeType]
+      const renderer = mimeRenderers[mimeType]
+      if (data === undefined || !renderer) continue
+
+      try {
+        const html = await renderer(data, output, renderCtx)
+        if (html) return html
+      } catch (error) {
+        console.warn(`Error rendering ${mimeType} output:`, error)
+      }
+    }
+
+    return ''
+  }
+
+  // Join consecutive writes to the same stream so progress bars split across outputs collapse together
+  const mergeStreamOutputs = (outputs: any[]): any[] => {
+    const merged: any[] = []
+    for (const output of outputs) {
+      const previous = merged[merged.length - 1]
+      if (output.output_type === 'stream' && previous?.output_type === 'stream' && previous.name === output.name) {
+        merged[merged.length - 1] = { ...previous, text: joinText(previous.text) + joinText(output.text) }
+      } else {
+        merged.push(output)
+      }
+    }
+    return merged
+  }
+
+  // Format notebook output
+  const formatOutput = async (output: any, renderCtx: RenderContext): Promise<string> => {
+    if (output.output_type === 'stream') {
+      const text = joinText(output.text)
+      return `<div class="${prefix}-stream-output ${prefix}-stream-${output.name ?? 'stdout'}"><pre>${ansiToHtml(text)}</pre></div>`
+    } else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
+      if (output.data) {
+        return renderMimeBundle(output, renderCtx)
+      }
+    } else if (output.output_type === 'error') {
+      const traceback = output.traceback ? output.traceback.join('\n') : ''
+      return `<div class="${prefix}-error-output"><pre>${ansiToHtml(traceback)}</pre></div>`
+    }
+
+    return ''
+  }
+
+  // Replay carriage returns and backspaces so only the final state of each line remains
+  const applyControlCharacters = (text: string): string => {
+    return text.replace(/\r\n/g, '\n').split('\n').map(line => {
+      const columns: string[] = []
+      let cursor = 0
+      let pendingEscapes = ''
+
+      for (const token of line.match(/\x1b\[[0-9;?]*[A-Za-z]|[\s\S]/g) ?? []) {
+        if (token === '\r') {
+          cursor = 0
+        } else if (token === '\b') {
+          cursor = Math.max(0, cursor - 1)
+        } else if (token.startsWith('\x1b')) {
+          // Escape sequences travel with the character they style
+          pendingEscapes += token
+        } else {
+          columns[cursor++] = pendingEscapes + token
+          pendingEscapes = ''
+        }
+      }
+
+      return columns.join('') + pendingEscapes
+    }).join('\n')
+  }
+
+  // Convert one of the 6x6x6 cube or grayscale entries of the 256-color palette to RGB
+  const ansi256ToRgb = (index: number): string => {
+    if (index >= 232) {
+      const level = 8 + (index - 232) * 10
+      return `rgb(${level}, ${level}, ${level})`
+    }
+    const cube = index - 16
+    const level = (n: number) => (n === 0 ? 0 : 55 + n * 40)
+    return `rgb(${level(Math.floor(cube / 36))}, ${level(Math.floor(cube / 6) % 6)}, ${level(cube % 6)})`
+  }
+
+  // Convert ANSI SGR escape sequences into spans with nbconvert-compatible classes
+  const ansiToHtml = (text: string): string => {
+    const colorNames = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white']
+    const state: { fg?: string, bg?: string, bold?: boolean, dim?: boolean, italic?: boolean, underline?: boolean } = {}
+
+    // Colors are either a class suffix for the 16 theme colors or a literal CSS color
+    const paletteColor = (index: number): string => {
+      if (index < 16) return `${colorNames[index % 8]}${index >= 8 ? '-intense' : ''}`
+      return ansi256ToRgb(index)
+    }
+
+    // Parse extended 38/48 color arguments, returning how many parameters were consumed
+    const extendedColor = (params: number[], i: number): [string | undefined, number] => {
+      if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+        return [paletteColor(params[i + 2]), 2]
+      }
+      if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+        return [`rgb(${params[i + 2]}, ${params[i + 3]}, ${params[i + 4]})`, 4]
+      }
+      return [undefined, 0]
+    }
+
+    const applySgr = (params: number[]) => {
+      for (let i = 0; i < params.length; i++) {
+        const code = params[i]
+        if (code === 0) {
+          for (const key of Object.keys(state) as Array<keyof typeof state>) delete state[key]
+        } else if (code === 1) state.bold = true
+        else if (code === 2) state.dim = true
+        else if (code === 3) state.italic = true
+        else if (code === 4) state.underline = true
+        else if (code === 22) { state.bold = false; state.dim = false }
+        else if (code === 23) state.italic = false
+        else if (code === 24) state.underline = false
+        else if (code >= 30 && code <= 37) state.fg = paletteColor(code - 30)
+        else if (code >= 90 && code <= 97) state.fg = paletteColor(code - 90 + 8)
+        else if (code === 39) state.fg = undefined
+        else if (code >= 40 && code <= 47) state.bg = paletteColor(code - 40)
+        else if (code >= 100 && code <= 107) state.bg = paletteColor(code - 100 + 8)
+        else if (code === 49) state.bg = undefined
+        else if (code === 38 || code === 48) {
+          const [color, consumed] = extendedColor(params, i)
+          if (code === 38) state.fg = color
+          else state.bg = color
+          i += consumed
+        }
+      }
+    }
+
+    const openSpan = (): string => {
+      const classes: string[] = []
+      const styles: string[] = []
+      if (state.fg) {
+        if (state.fg.startsWith('rgb')) styles.push(`color: ${state.fg}`)
+        else classes.push(`ansi-${state.fg}-fg`)
+      }
+      if (state.bg) {
+        if (state.bg.startsWith('rgb')) styles.push(`background-color: ${state.bg}`)
+        else classes.push(`ansi-${state.bg}-bg`)
+      }
+      if (state.bold) classes.push('ansi-bold')
+      if (state.dim) classes.push('ansi-dim')
+      if (state.italic) classes.push('ansi-italic')
+      if (state.underline) classes.push('ansi-underline')
+
+      if (classes.length === 0 && styles.length === 0) return ''
+      const classAttr = classes.length > 0 ? ` class="${classes.join(' ')}"` : ''
+      const styleAttr = styles.length > 0 ? ` style="${styles.join('; ')}"` : ''
+      return `<span${classAttr}${styleAttr}>`
+    }
+
+    let html = ''
+    let lastIndex = 0
+    const cleaned = applyControlCharacters(text)
+    const emit = (segment: string) => {
+      if (!segment) return
+      const open = openSpan()
+      html += open ? `${open}${escapeHtml(segment)}</span>` : escapeHtml(segment)
+    }
+
+    for (const match of cleaned.matchAll(/\x1b\[([0-9;?]*)([A-Za-z])/g)) {
+      emit(cleaned.slice(lastIndex, match.index))
+      lastIndex = match.index! + match[0].length
+
+      // Only SGR sequences affect rendering; cursor movement and the like are dropped
+      if (match[2] === 'm') {
+        const params = match[1] === '' ? [0] : match[1].split(';').map(n => parseInt(n, 10) || 0)
+        applySgr(params)
+      }
+    }
+    emit(cleaned.slice(lastIndex))
+
+    return html
+  }
+
+  // Escape HTML
+  const escapeHtml = (text: string): string => {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#x27;')
+  }
+
+  // Whether a site transformer runs after this plugin, and so also sees the embedded notebook
+  const runsAfterEmbedding = (ctx: BuildCtx, name: string): boolean => {
+    const transformers: QuartzTransformerPluginInstance[] = ctx.cfg.plugins.transformers
+    const names = transformers.map(transformer => transformer.name)
+    return names.indexOf(name) > names.indexOf('NotebookEmbedding')
+  }
+
+  // Whether the site lists an emitter in quartz.config.ts
+  const hasEmitter = (ctx: BuildCtx, name: string): boolean => {
+    const emitters: QuartzEmitterPluginInstance[] = ctx.cfg.plugins.emitters
+    return emitters.some(emitter => emitter.name === name)
+  }
+
+  // Images and scripts are only written as files by `NotebookAssets`; without it images are inlined
+  // and interactive outputs keep their static fallback
+  const writesAssets = (ctx: BuildCtx): boolean => hasEmitter(ctx, 'NotebookAssets')
+
+  // Standalone pages are written by `NotebookPages`, their `.ipynb` copies by `NotebookAssets`
+  const makesPages = (ctx: BuildCtx): boolean => {
+    return opts.pages && hasEmitter(ctx, 'NotebookPages') && writesAssets(ctx)
+  }
+
+  let pluginSetupChecked = false
+
+  // Warn about transformers listed after this plugin that would undo its work, and emitters it needs that are
+  // missing. Notebook URLs are relative to the page and cell links are resolved already, which a later
+  // LinkProcessing would resolve a second time
+  const checkPluginSetup = (ctx: BuildCtx) => {
+    if (pluginSetupChecked) return
+    pluginSetupChecked = true
+
+    if (runsAfterEmbedding(ctx, 'LinkProcessing')) {
+      console.warn('NotebookEmbedding should come after CrawlLinks in quartz.config.ts, or links and images in notebooks break')
+    }
+    // Description reads the text of the whole page, so it would index every embedded notebook in full and
+    // describe pages by their notebooks' code, whatever `indexText`, `indexCode` and `indexOutputs` say
+    if (opts.indexText && runsAfterEmbedding(ctx, 'Description')) {
+      console.warn('NotebookEmbedding should come after Description in quartz.config.ts, or notebooks are indexed and described in full')
+    }
+    if (!writesAssets(ctx) && (opts.imageMode === 'asset' || opts.interactiveOutputs)) {
+      console.warn('Add the NotebookAssets emitter to quartz.config.ts; until then notebook images are inlined and interactive outputs stay static')
+    }
+    if (opts.pages && !makesPages(ctx)) {
+      console.warn('Notebook pages need the NotebookPages and NotebookAssets emitters in quartz.config.ts; no pages are made until both are there')
+    }
+  }
+
+  // Quartz copies local notebooks to the build output under their slugified path, like any other file
+  const getLocalNotebookUrl = (source: NotebookSource, renderCtx: RenderContext): string => {
+    const relativePath = path.relative(renderCtx.ctx.argv.directory, source.location) as FilePath
+    return joinSegments(renderCtx.assetBase, slugifyFilePath(relativePath))
+  }
+
+  // Slug of a notebook's standalone page. Local notebooks keep their path in the content folder,
+  // remote ones are told apart by a hash of their URL
+  const getPageSlug = (source: NotebookSource, ctx: BuildCtx): FullSlug => {
+    const name = source.local
+      ? slugifyFilePath(path.relative(ctx.argv.directory, source.location) as FilePath, true)
+      : `${slugify(path.basename(source.resolved?.name || 'notebook', '.ipynb')) || 'notebook'}-${getCacheKey(source.location).slice(0, 8)}`
+    return joinSegments(opts.pagesDir, name) as FullSlug
+  }
+
+  // The notebook file, from its standalone page if there is one, else from where it was read
+  const getDownloadUrl = (source: NotebookSource, renderCtx: RenderContext): string => {
+    if (makesPages(renderCtx.ctx)) {
+      return joinSegments(renderCtx.assetBase, `${getPageSlug(source, renderCtx.ctx)}.ipynb`)
+    }
+    return source.local ? getLocalNotebookUrl(source, renderCtx) : source.resolved?.rawUrl ?? source.location
+  }
+
+  // Where the "Open full notebook" link of a preview leads
+  const getFullNotebookUrl = (source: NotebookSource, renderCtx: RenderContext): string => {
+    if (makesPages(renderCtx.ctx)) {
+      return joinSegments(renderCtx.assetBase, getPageSlug(source, renderCtx.ctx))
+    }
+    return source.local ? getLocalNotebookUrl(source, renderCtx) : source.resolved?.pageUrl ?? source.location
+  }
+
+  // Whether the notebook file may be copied to the site; downloads with credentials are likely private
+  const isPublishable = (notebook: NotebookData): boolean => {
+    return opts.publishAuthenticatedNotebooks || !authenticatedNotebooks.has(notebook)
+  }
+
+  // Download link for publishable notebooks; Colab and Binder only open public GitHub repositories
+  const getHeaderActions = (notebook: NotebookData, source: NotebookSource, name: string, renderCtx: RenderContext): string => {
+    const actions: string[] = []
+    if (isPublishable(notebook)) {
+      actions.push(`<a href="${escapeHtml(getDownloadUrl(source, renderCtx))}" class="${prefix}-action" download="${escapeHtml(name)}">Download</a>`)
+    }
+
+    const repository = source.resolved?.repository
+    if (repository?.provider === 'github' && !privateNotebooks.has(notebook)) {
+      const encodePath = (value: string) => value.split('/').map(encodeURIComponent).join('/')
+      const { owner, repo, ref } = repository
+      const colabUrl = `https://colab.research.google.com/github/${encodePath(owner)}/${encodePath(repo)}/blob/${encodePath(ref)}/${encodePath(repository.path)}`
+      const binderUrl = `https://mybinder.org/v2/gh/${encodePath(owner)}/${encodePath(repo)}/${encodeURIComponent(ref)}?labpath=${encodeURIComponent(repository.path)}`
+      actions.push(
+        `<a href="${escapeHtml(colabUrl)}" target="_blank" rel="noopener noreferrer" class="${prefix}-action">Open in Colab</a>`,
+        `<a href="${escapeHtml(binderUrl)}" target="_blank" rel="noopener noreferrer" class="${prefix}-action">Launch Binder</a>`,
+      )
+    }
+
+    return actions.length > 0 ? `<span class="${prefix}-actions">${actions.join(' ')}</span>` : ''
+  }
+
+  // Notebook HTML rendered during the current build, with the links and assets found in it
+  const renderedNotebooks = new Map<string, Promise<{ html: string, links: string[], assets: NotebookAsset[] }>>()
+
+  // Render a notebook once per build and worker for every page folder that embeds it the same way. The folder is
+  // part of the key because asset URLs and links resolved by the site's transformers are relative to the page, and
+  // the options and selection because they are not always spelled out in the href, e.g. on standalone pages
+  const notebookToHtml = async (notebook: NotebookData, source: NotebookSource, ctx: BuildCtx, file: VFile, anchorPrefix: string): Promise<string> => {
+    const key = `${ctx.buildId}:${JSON.stringify([
+      contentHashes.get(notebook) ?? source.location,
+      source.href,
+      source.options,
+      source.selection ?? null,
+      path.posix.dirname(file.data.slug!),
+      anchorPrefix,
+    ])}`
+    if (!renderedNotebooks.has(key)) {
+      renderedNotebooks.set(key, renderNotebook(notebook, source, ctx, file, anchorPrefix))
+    }
+
+    const { html, links, assets } = await renderedNotebooks.get(key)!
+    if (links.length > 0) {
+      file.data.links = [...new Set([...(file.data.links ?? []), ...links])]
+    }
+    const recorded = file.data.notebookAssets ?? []
+    const added = assets.filter(asset => !recorded.some(existing => existing.path === asset.path))
+    if (added.length > 0) {
+      file.data.notebookAssets = [...recorded, ...added]
+    }
+    return html
+  }
+
+  // Convert notebook to HTML
+  const renderNotebook = async (notebook: NotebookData, source: NotebookSource, ctx: BuildCtx, file: VFile, anchorPrefix: string): Promise<{ html: string, links: string[], assets: NotebookAsset[] }> => {
+    const renderCtx: RenderContext = {
+      notebook,
+      source,
+      trusted: isTrustedSource(source),
+      language: getNotebookLanguage(notebook),
+      ctx,
+      assetBase: pathToRoot(file.data.slug!),
+      assets: new Map(),
+      page: file.data,
+      links: new Set(),
+      anchorPrefix,
+      options: { ...opts, ...source.options },
+      usesWidgets: false,
+      usesInteractiveOutputs: false,
+    }
+    const { options } = renderCtx
+    const selected = selectCells(notebook.cells, source.selection)
+    const shown = options.preview > 0 ? selected.slice(0, options.preview) : selected
+    const cellPromises = shown.map(({ cell, index }) => cellToHtml(cell, index, renderCtx))
+    let cells = (await Promise.all(cellPromises)).join('\n')
+
+    if (shown.length < selected.length) {
+      const remaining = selected.length - shown.length
+      cells += `
+          <div class="${prefix}-preview-more">
+            <a href="${escapeHtml(getFullNotebookUrl(source, renderCtx))}" class="${prefix}-open-full">Open full notebook</a>
+            (${remaining} more ${remaining === 1 ? 'cell' : 'cells'})
+          </div>`
+    }
+
+    const rootClasses = [`jupyter-${prefix}-embedded`, `${prefix}-theme-${options.theme}`]
+    if (!options.inputLabels) rootClasses.push(`${prefix}-no-input-labels`)
+    if (!options.outputLabels) rootClasses.push(`${prefix}-no-output-labels`)
+
+    let sourceHtml: string
+    const notebookName = source.local ? path.basename(source.location) : source.resolved?.name || 'notebook.ipynb'
+    if (source.local) {
+      // Local notebooks link to the file copied by Quartz's asset emitter
+      sourceHtml = `
+            <a href="${escapeHtml(getLocalNotebookUrl(source, renderCtx))}" class="${prefix}-link">
+              ${escapeHtml(notebookName)}
+            </a>`
+    } else {
+      const pageUrl = source.resolved?.pageUrl ?? source.location
+
+      // Get favicon URL using our detection logic
+      const faviconUrl = await getFavicon(pageUrl, renderCtx)
+      const siteName = new URL(pageUrl).hostname
+      const faviconHtml = faviconUrl
+        ? `<img src="${escapeHtml(faviconUrl)}" alt="${siteName}" class="${prefix}-favicon" title="Source: ${siteName}">`
+        : generateLetterFavicon(siteName)
+
+      sourceHtml = `
+            <a href="${escapeHtml(pageUrl)}" target="_blank" rel="noopener noreferrer" class="${prefix}-link">
+              ${escapeHtml(notebookName)}
+            </a>
+            ${faviconHtml}`
+    }
+    if (options.headerActions) {
+      sourceHtml += `
+            ${getHeaderActions(notebook, source, notebookName, renderCtx)}`
+    }
+
+    const widgetState = renderCtx.usesWidgets
+      ? ` data-widget-state="${escapeHtml(JSON.stringify(notebook.metadata.widgets['application/vnd.jupyter.widget-state+json']))}"`
+      : ''
+
+    // Quartz's SPA router runs scripts in the page it navigates to, so this stays off pages without such outputs
+    const outputScript = renderCtx.usesInteractiveOutputs
+      ? `
+        <script src="${escapeHtml(emitAsset(Buffer.from(interactiveOutputScript(prefix)), 'js', renderCtx))}" defer></script>`
+      : ''
+
+    const html = `
+      <div id="${anchorPrefix}" class="${rootClasses.join(' ')}" data-max-output-height="${options.maxOutputHeight}"${widgetState}>
+        <div class="${prefix}-header">
+          <span class="${prefix}-title">Jupyter Notebook</span>
+          <div class="${prefix}-source">${sourceHtml}
+          </div>
+        </div>
+        <div class="${prefix}-cells">
+          ${cells}
+        </div>${outputScript}
+      </div>
+    `
+    const assets = [...renderCtx.assets].map(([assetPath, content]) => ({ path: assetPath, content }))
+    return { html, links: [...renderCtx.links], assets }
+  }
+
+  // The notebook exactly as it was read: the file on disk, or the cached download
+  const readNotebookFile = async (source: NotebookSource): Promise<string | null> => {
+    const filePath = source.local ? source.location : path.join(opts.cacheDir, `${getCacheKey(source.location)}.ipynb`)
+    try {
+      return await fs.readFile(filePath, 'utf-8')
+    } catch (error) {
+      console.warn(`Failed to read notebook ${source.location}: ${error}`)
+      return null
+    }
+  }
+
+  // Standalone pages rendered during the current build, with the files they need
+  const renderedPages = new Map<string, Promise<{ page: NotebookPage, assets: NotebookAsset[] }>>()
+
+  // Render a whole notebook for its standalone page, processed the way a note embedding it would be
+  const renderNotebookPage = async (notebook: NotebookData, embedSource: NotebookSource, slug: FullSlug, ctx: BuildCtx): Promise<{ page: NotebookPage, assets: NotebookAsset[] }> => {
+    const relativePath = (embedSource.local ? path.relative(ctx.argv.directory, embedSource.location) : `${slug}.ipynb`) as FilePath
+    const source: NotebookSource = { ...embedSource, selection: undefined, options: { preview: 0 } }
+    const filePath = (source.local ? source.location : `${slug}.ipynb`) as FilePath
+    const file = new VFile({ path: filePath, data: { slug, filePath, relativePath } })
+
+    const html = await notebookToHtml(notebook, source, ctx, file, getAnchorPrefix(source, new Map()))
+    const { prose, text } = getNotebookText(fromHtml(html, { fragment: true }))
+
+    // The copy next to the page is what its Download link points to
+    const assets = file.data.notebookAssets ?? []
+    const ipynb = isPublishable(notebook) ? await readNotebookFile(source) : null
+    if (ipynb !== null) {
+      assets.push({ path: `${slug}.ipynb`, content: Buffer.from(ipynb) })
+    }
+
+    const page: NotebookPage = {
+      slug,
+      filePath,
+      relativePath,
+      title: source.local ? path.basename(source.location) : source.resolved?.name || 'notebook.ipynb',
+      description: escapeHtml(describe(prose || text)),
+      text: escapeHtml(text),
+      html,
+    }
+    return { page, assets }
+  }
+
+  // Record the standalone page of an embedded notebook on the embedding page, along with the files it needs
+  const addNotebookPage = async (notebook: NotebookData, source: NotebookSource, ctx: BuildCtx, file: VFile): Promise<void> => {
+    const slug = getPageSlug(source, ctx)
+    const key = `${ctx.buildId}:${slug}`
+    if (!renderedPages.has(key)) {
+      renderedPages.set(key, renderNotebookPage(notebook, source, slug, ctx))
+    }
+
+    const { page, assets } = await renderedPages.get(key)!
+    const pages = file.data.notebookPages ?? []
+    if (!pages.some(existing => existing.slug === slug)) {
+      file.data.notebookPages = [...pages, page]
+    }
+    const recorded = file.data.notebookAssets ?? []
+    file.data.notebookAssets = [...recorded, ...assets.filter(asset => !recorded.some(existing => existing.path === asset.path))]
+  }
+
+  // Record a failed or outdated embed on its page; the `NotebookDiagnostics` emitter reports them for the whole build
+  const addDiagnostic = (file: VFile, href: string, problem: NotebookProblem, staleCache: boolean) => {
+    const diagnostic: NotebookDiagnostic = { file: file.data.relativePath ?? '', href, ...problem, staleCache }
+    file.data.notebookDiagnostics = [...(file.data.notebookDiagnostics ?? []), diagnostic]
+  }
+
+  let currentBuildId: string | undefined
+
+  // `quartz build --serve` rebuilds under a new build id, after which entries of earlier builds are never read
+  const forgetEarlierBuilds = (ctx: BuildCtx) => {
+    if (ctx.buildId === currentBuildId) return
+    currentBuildId = ctx.buildId
+
+    const caches: Array<Map<string, unknown>> = [
+      loadedNotebooks, renderedNotebooks, renderedPages, markdownProcessors, faviconLookups, loadedOutputScripts,
+      siteCodeHighlighters,
+    ]
+    for (const cache of caches) {
+      for (const key of cache.keys()) {
+        if (!key.startsWith(`${ctx.buildId}:`)) cache.delete(key)
+      }
+    }
+  }
+
+  // Id of an embed, from the notebook's file name; later embeds of the same notebook on a page get a counter
+  const getAnchorPrefix = (source: NotebookSource, used: Map<string, number>): string => {
+    const name = path.basename(source.resolved?.name || source.location.split(/[?#]/)[0], '.ipynb')
+    const base = `${prefix}-${slugify(name) || 'embed'}`
+    const count = (used.get(base) ?? 0) + 1
+    used.set(base, count)
+    return count === 1 ? base : `${base}-${count}`
+  }
+
+  // Give headings of markdown cells ids unique to the embed, in document order, with a hover permalink.
+  // Returns them as table of contents entries whose depth counts from the notebook's top heading level
+  const anchorHeadings = (tree: Root, anchorPrefix: string): TocEntry[] => {
+    const slugger = new GithubSlugger()
+    const entries: TocEntry[] = []
+
+    visit(tree, 'element', (cell: Element) => {
+      const classes = (cell.properties?.className ?? []) as string[]
+      if (!classes.includes(`${prefix}-markdown-cell`)) return
+
+      visit(cell, 'element', (heading: Element) => {
+        if (!/^h[1-6]$/.test(heading.tagName)) return
+
+        const text = toString(heading).trim()
+        const previousId = heading.properties.id
+        const id = `${anchorPrefix}-${slugger.slug(text)}`
+        heading.properties.id = id
+
+        // The site's autolink-headings plugin may already have linked the id rehype-slug gave the heading
+        let linked = false
+        visit(heading, 'element', (link: Element) => {
+          if (link.tagName === 'a' && previousId && link.properties.href === `#${previousId}`) {
+            link.properties.href = `#${id}`
+            linked = true
+          }
+        })
+        if (!linked) {
+          // Same markup as Quartz's own heading links, so the site's hover styles apply
+          heading.children.push({
+            type: 'element',
+            tagName: 'a',
+            properties: { href: `#${id}`, role: 'anchor', ariaHidden: 'true', tabIndex: -1, dataNoPopover: 'true' },
+            children: [{ type: 'text', value: '#' }],
+          })
+        }
+
+        entries.push({ depth: Number(heading.tagName[1]), text, slug: id })
+        return SKIP
+      })
+      return SKIP
+    })
+
+    const topDepth = Math.min(...entries.map(entry => entry.depth))
+    return entries.map(entry => ({ ...entry, depth: entry.depth - topDepth }))
+  }
+
+  // Insert notebook headings into the page's table of contents, nested under the section holding the embed
+  const mergeTableOfContents = (toc: TocEntry[], entries: TocEntry[], sectionSlug?: string): TocEntry[] => {
+    if (entries.length === 0) return toc
+
+    const sectionIndex = toc.findIndex(entry => entry.slug === sectionSlug)
+    const baseDepth = sectionIndex === -1 ? 0 : toc[sectionIndex].depth + 1
+    const nested = entries.map(entry => ({ ...entry, depth: baseDepth + entry.depth }))
+
+    // An embed before the first heading, or under one missing from the toc, goes at the start or end
+    const insertAt = sectionIndex !== -1 ? sectionIndex + 1 : sectionSlug ? toc.length : 0
+    return [...toc.slice(0, insertAt), ...nested, ...toc.slice(insertAt)]
+  }
+
+  // Text of a rendered embed: markdown cells as prose, plus code and outputs for search when enabled
+  const getNotebookText = (tree: Root): { prose: string, text: string } => {
+    const prose: string[] = []
+    const text: string[] = []
+
+    visit(tree, 'element', (node: Element) => {
+      const classes = (node.properties?.className ?? []) as string[]
+      if (classes.includes(`${prefix}-markdown-cell`)) {
+        prose.push(toString(node))
+        text.push(toString(node))
+        return SKIP
+      }
+      if ((opts.indexCode && classes.includes(`${prefix}-code-content`))
+        || (opts.indexOutputs && classes.includes(`${prefix}-output-content`))) {
+        text.push(toString(node))
+        return SKIP
+      }
+    })
+
+    const clean = (parts: string[]) => parts.join(' ').replace(/\s+/g, ' ').trim()
+    return { prose: clean(prose), text: clean(text) }
+  }
+
+  // Text of a page outside its embedded notebooks
+  const getOwnText = (tree: Root): string => {
+    const parts: string[] = []
+    visit(tree, (node) => {
+      if (node.type === 'element' && ((node.properties?.className ?? []) as string[]).includes(`${prefix}-wrapper-container`)) {
+        return SKIP
+      }
+      if (node.type === 'text') parts.push(node.value)
+    })
+    return parts.join('').trim()
+  }
+
+  // Whole sentences up to about 150 characters, like the descriptions of Quartz's Description transformer
+  const describe = (text: string): string => {
+    let description = ''
+    for (const sentence of text.split(/(?<=[.!?])\s/)) {
+      if (description && description.length + sentence.length > 150) return `${description}...`
+      description = description ? `${description} ${sentence}` : sentence
+    }
+    return description
+  }
+
+  // Favicons looked up during the current build, one lookup per host. A rebuild looks again, so a host whose
+  // lookup failed gets another try once its miss in the cache is older than `cacheTtl`
+  const faviconLookups = new Map<string, Promise<CachedFavicon | null>>()
+
+  // Favicon for a notebook's host, served from the build output so readers never contact third parties
+  const getFavicon = async (sourceUrl: string, renderCtx: RenderContext): Promise<string | null> => {
+    const url = new URL(sourceUrl)
+    const mapped = opts.faviconMap[url.hostname] ?? builtinFavicons[url.hostname]
+    if (mapped) return mapped
+
+    const key = `${renderCtx.ctx.buildId}:${url.host}`
+    if (!faviconLookups.has(key)) {
+      faviconLookups.set(key, loadFavicon(url))
+    }
+
+    const favicon = await faviconLookups.get(key)
+    if (!favicon) return null
+    return imageSource(Buffer.from(favicon.data, 'base64'), favicon.mimeType, renderCtx)
+  }
+
+  // Load a host's favicon from the cache, downloading it once if remote lookups are allowed
+  const loadFavicon = async (url: URL): Promise<CachedFavicon | null> => {
+    const cachePath = path.join(opts.cacheDir, 'favicons', `${getCacheKey(url.host)}.json`)
+    let missing: MissingFavicon | null = null
+    try {
+      const cached = JSON.parse(await fs.readFile(cachePath, 'utf-8')) as CachedFavicon | MissingFavicon
+      if (!('missing' in cached)) return cached
+      missing = cached
+    } catch (error) {
+      // Not cached yet
+    }
+
+    if (!opts.remoteFavicons || opts.offline) {
+      return null
+    }
+    if (missing && Date.now() - missing.checkedAt < opts.cacheTtl) {
+      return null
+    }
+
+    for (const iconUrl of await findFaviconUrls(url)) {
+      try {
+        const favicon = await withHostLimit(iconUrl, async (): Promise<CachedFavicon | null> => {
+          const response = await fetch(iconUrl, {
+            signal: AbortSignal.timeout(3000),
+            headers: {
+              'User-Agent': 'Mozilla/5.0 (compatible; Quartz-NotebookEmbedder/1.0)'
+            }
+          })
+          const mimeType = response.headers.get('content-type')?.split(';')[0].trim() ?? ''
+          if (!response.ok || !imageExtensions[mimeType]) {
+            await response.body?.cancel()
+            return null
+          }
+
+          return {
+            host: url.host,
+            mimeType,
+            data: Buffer.from(await response.arrayBuffer()).toString('base64'),
+          }
+        })
+        if (!favicon) continue
+
+        await writeFaviconCache(cachePath, favicon)
+        return favicon
+      } catch (error) {
+        // Continue to next candidate
+      }
+    }
+
+    // Remember the miss too, so later builds do not repeat the same requests
+    await writeFaviconCache(cachePath, { host: url.host, missing: true, checkedAt: Date.now() })
+    return null
+  }
+
+  const writeFaviconCache = async (cachePath: string, entry: CachedFavicon | MissingFavicon): Promise<void> => {
+    try {
+      await fs.mkdir(path.dirname(cachePath), { recursive: true })
+      await fs.writeFile(cachePath, JSON.stringify(entry))
+    } catch (error) {
+      console.warn(`Failed to cache favicon of ${entry.host}: ${error}`)
+    }
+  }
+
+  // Favicon detection: icons declared by the site's homepage, then well-known fallbacks. The favicon
+  // services only come last, and only when `faviconServices` allows telling them about the host
+  const findFaviconUrls = async (url: URL): Promise<string[]> => {
+    const candidates: string[] = []
+    try {
+      // Try to fetch the HTML and parse favicon links
+      const html = await withHostLimit(url.origin, async () => {
+        const response = await fetch(url.origin, {
+          signal: AbortSignal.timeout(5000),
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; Quartz-NotebookEmbedder/1.0)'
+          }
+        })
+        if (!response.ok) {
+          await response.body?.cancel()
+          return null
+        }
+        return response.text()
+      })
+
+      if (html !== null) {
+        const icons = parseFaviconLinks(html, url)
+
+        if (icons.length > 0) {
+          // Sort by size (largest first) and try the best one first
+          candidates.push(getBestIcon(icons))
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch favicon from HTML for ${url.origin}:`, error)
+    }
+
+    // Fallback to alternative sources
+    const domain = url.hostname
+    return [
+      ...candidates,
+      `${url.origin}/favicon.ico`,
+      ...(opts.faviconServices
+        ? [`https://www.google.com/s2/favicons?domain=${domain}&sz=32`, `https://icons.duckduckgo.com/ip3/${domain}.ico`]
+        : []),
+    ]
+  }
+
+  const parseFaviconLinks = (html: string, baseUrl: URL): Array<{ sizes: string, href: string }> => {
+    const regex = /<link[^>]*rel=['"]?[^\s]*icon['"]?[^>]*?>/gi
+    const matches = Array.from(html.matchAll(regex))
+    const icons: Array<{ sizes: string, href: string }> = []
+
+    matches.forEach((match) => {
+      const linkTag = match[0]
+
+      // Extract href value
+      const hrefMatch = linkTag.match(/href=['"]?([^\s>'"]*)['"]?/i)
+      const href = hrefMatch ? hrefMatch[1] : null
+
+      // Extract sizes value
+      const sizesMatch = linkTag.match(/sizes=['"]?([^\s>'"]*)['"]?/i)
+      const sizes = sizesMatch ? sizesMatch[1] : 'unknown'
+
+      if (href) {
+        // Convert relative URLs to absolute using helper
+        const absoluteHref = toAbsoluteUrl(href, baseUrl)
         icons.push({ sizes, href: absoluteHref })
       }
     })
@@ -607,67 +3707,153 @@ html[data-theme='dark'] .notebook-error-output pre {
     return sortedIcons[0].href
   }
 
+  // Letter-based favicon as last resort, colored through `--notebook-favicon-*` properties
   const generateLetterFavicon = (domain: string): string => {
     const firstLetter = domain.charAt(0).toUpperCase()
-    const svgContent = `<svg width="32" height="32" xmlns="http://www.w3.org/2000/svg">
-      <rect width="100%" height="100%" fill="#6366f1" rx="4"/>
-      <text x="50%" y="50%" font-size="18" font-family="system-ui,sans-serif" font-weight="600" text-anchor="middle" dominant-baseline="middle" fill="white">${firstLetter}</text>
-    </svg>`
-    return `data:image/svg+xml;base64,${Buffer.from(svgContent).toString('base64')}`
+    return `<span class="${prefix}-favicon ${prefix}-letter-favicon" title="Source: ${escapeHtml(domain)}" aria-hidden="true">${escapeHtml(firstLetter)}</span>`
   }
 
   // Main transformer function
   return {
     name: "NotebookEmbedding",
-    htmlPlugins() {
+    textTransform(ctx, src) {
+      return transformWikilinkEmbeds(src, ctx)
+    },
+    markdownPlugins(ctx) {
+      return [keepNotebookHrefs(ctx)]
+    },
+    externalResources(ctx) {
+      // With a `Latex` transformer the site already links the KaTeX styles
+      const ownKatex = (opts.math === 'site' || opts.math === 'katex') && !getSiteLatex(ctx)
+      return {
+        css: [
+          {
+            content: notebookStyles(prefix),
+            inline: true,
+          },
+          ...(ownKatex ? [{ content: katexStylesheet }] : []),
+        ],
+        js: [
+          ...(opts.interactive
+            ? [
+                {
+                  script: notebookScript(prefix),
+                  loadTime: "afterDOMReady" as const,
+                  contentType: "inline" as const,
+                },
+              ]
+            : []),
+        ],
+      }
+    },
+    htmlPlugins(ctx) {
+      checkPluginSetup(ctx)
       return [
         () => {
-          return async (tree: Root, _file) => {
+          return async (tree: Root, file) => {
             await ensureCacheDir()
+            forgetEarlierBuilds(ctx)
 
             const promises: Promise<void>[] = []
+            const anchorPrefixes = new Map<string, number>()
+            // Notebook headings for the table of contents, grouped by the page section each embed sits in
+            const sections = new Map<string | undefined, TocEntry[][]>()
+            let sectionSlug: string | undefined
+            // Page headings only get ids from GitHubFlavoredMarkdown's rehype-slug, which may run after this plugin.
+            // Its slugger, like the one TableOfContents uses, gives the same slugs to the same headings in order
+            const headingSlugger = new GithubSlugger()
+            // Text of every embedded notebook, in document order
+            const embedTexts: Array<{ prose: string, text: string }> = []
 
             visit(tree, "element", (node: Element) => {
-              if (node.tagName === "a" && node.properties?.href) {
-                const href = node.properties.href as string
+              if (/^h[1-6]$/.test(node.tagName)) {
+                sectionSlug = node.properties?.id ? String(node.properties.id) : headingSlugger.slug(toString(node))
+              }
+
+              // The href as written, recorded before CrawlLinks rewrote the one on the element
+              const writtenHref = node.properties?.dataNotebookHref
+              if (writtenHref !== undefined) {
+                delete node.properties.dataNotebookHref
+              }
+
+              // `![[...]]` and `![](...)` embeds arrive as images; plain links only embed with `embedLinks`
+              const isEmbed = node.tagName === "img" && typeof node.properties?.src === "string"
+              const isLink = opts.embedLinks && node.tagName === "a" && node.properties?.href
+
+              if (isEmbed || isLink) {
+                // `href` is the link as published, resolved against the page; `target` says which notebook to embed
+                const href = (isEmbed ? node.properties.src : node.properties.href) as string
+                const target = typeof writtenHref === "string" ? writtenHref : href
 
                 // Check if this is a notebook link
-                if (href.endsWith('.ipynb')) {
+                if (isNotebookHref(target, isEmbed)) {
+                  let source: NotebookSource
+                  try {
+                    source = resolveNotebookSource(target, ctx.argv.directory, file.data.filePath)
+                  } catch (error) {
+                    console.warn(`Error processing notebook link ${target}:`, error)
+                    addDiagnostic(file, target, { reason: 'unresolved', message: `invalid link: ${error instanceof Error ? error.message : error}` }, false)
+                    return
+                  }
+
+                  // A title like "outputs=false,maxHeight=600" holds options; any other title is just a title
+                  const title = node.properties.title
+                  if (isEmbed && typeof title === "string" && title.includes("=")) {
+                    source.options = { ...source.options, ...parseEmbedOptions(title, target) }
+                  }
+                  const linkText = isEmbed ? String(node.properties.alt ?? "") : toString(node)
+
+                  // Ids and toc slots are taken in document order, before the embeds render concurrently
+                  const anchorPrefix = getAnchorPrefix(source, anchorPrefixes)
+                  const tocEntries: TocEntry[] = []
+                  sections.set(sectionSlug, [...(sections.get(sectionSlug) ?? []), tocEntries])
+                  const embedText = { prose: '', text: '' }
+                  embedTexts.push(embedText)
+
                   const promise = (async () => {
                     try {
-                      // Try to load from cache first
-                      let notebook = await loadCachedNotebook(href)
-
-                      // If not cached and download is enabled, try to download
-                      if (!notebook && opts.downloadFromGitHub) {
-                        notebook = await downloadNotebook(href)
-                        if (notebook) {
-                          await cacheNotebook(href, notebook)
-                        }
-                      }                      // If we have notebook data, embed it
+                      const { notebook, problem } = await loadNotebook(source, ctx)
+                      if (problem) addDiagnostic(file, target, problem, notebook !== null)
+                      const unavailable = `Notebook unavailable: ${problem?.message ?? 'unknown error'}`
+
+                      // If we have notebook data, embed it
                       if (notebook) {
-                        const notebookHtml = await notebookToHtml(notebook, href)
+                        if (makesPages(ctx)) {
+                          await addNotebookPage(notebook, source, ctx, file)
+                        }
+                        const notebookHtml = await notebookToHtml(notebook, source, ctx, file, anchorPrefix)
 
                         // Replace the link with embedded notebook
                         node.tagName = "div"
                         node.properties = {
-                          className: ["notebook-wrapper-container"],
-                          "data-notebook-url": href
+                          className: [`${prefix}-wrapper-container`],
+                          "data-notebook-url": target
                         }
 
                         const notebookAst = fromHtml(notebookHtml, { fragment: true })
+                        Object.assign(embedText, getNotebookText(notebookAst))
+                        tocEntries.push(...anchorHeadings(notebookAst, anchorPrefix))
                         node.children = notebookAst.children as any
+                      } else if (isEmbed) {
+                        // A broken image would hide the failure, so the embed falls back to a marked link
+                        node.tagName = "a"
+                        node.properties = {
+                          href,
+                          title: unavailable,
+                          className: [`${prefix}-link-unavailable`]
+                        }
+                        node.children = [{ type: "text", value: linkText || path.basename(target.split(/[?#]/)[0]) }]
                       } else {
                         // Show the original link but mark it as unavailable
                         node.properties = {
                           ...node.properties,
-                          className: ["notebook-link-unavailable"]
+                          title: unavailable,
+                          className: [`${prefix}-link-unavailable`]
                         }
-                        // Optionally, you can keep the original children or set a message:
-                        // node.children = [{ type: "text", value: "Notebook unavailable" }] as any
                       }
                     } catch (error) {
-                      console.warn(`Error processing notebook link ${href}:`, error)
+                      console.warn(`Error processing notebook link ${target}:`, error)
+                      addDiagnostic(file, target, { reason: 'render', message: `rendering failed: ${error instanceof Error ? error.message : error}` }, false)
                     }
                   })()
 
@@ -678,9 +3864,181 @@ html[data-theme='dark'] .notebook-error-output pre {
 
             // Wait for all notebook processing to complete
             await Promise.all(promises)
+
+            // Follow the site and the page on whether there is a table of contents at all
+            const transformers: QuartzTransformerPluginInstance[] = ctx.cfg.plugins.transformers
+            const tocEnabled = transformers.some(transformer => transformer.name === 'TableOfContents')
+              && file.data.frontmatter?.enableToc !== false && file.data.frontmatter?.enableToc !== 'false'
+            if (opts.tableOfContents && tocEnabled) {
+              let toc = file.data.toc ?? []
+              for (const [slug, embeds] of sections) {
+                toc = mergeTableOfContents(toc, embeds.flat(), slug)
+              }
+              if (toc.length > 0) file.data.toc = toc
+            }
+
+            // A Description transformer running later reads the embedded notebooks from the tree itself
+            if (opts.indexText && !runsAfterEmbedding(ctx, 'Description')) {
+              const text = embedTexts.map(embed => embed.text).filter(Boolean).join(' ')
+              if (text) {
+                file.data.text = [file.data.text, escapeHtml(text)].filter(Boolean).join(' ')
+              }
+
+              // A note that is nothing but notebook links is described by its notebooks
+              const prose = embedTexts.map(embed => embed.prose || embed.text).filter(Boolean).join(' ')
+              if (!file.data.frontmatter?.description && getOwnText(tree) === '' && prose) {
+                file.data.description = escapeHtml(describe(prose))
+              }
+            }
           }
         }
       ]
     },
   }
+
+}
+
+// Write an asset at its path in the build output
+const writeAsset = (ctx: BuildCtx, asset: NotebookAsset): Promise<FilePath> => {
+  const ext = path.posix.extname(asset.path)
+  return write({ ctx, content: Buffer.from(asset.content), slug: asset.path.slice(0, -ext.length || undefined) as FullSlug, ext: ext as `.${string}` | "" })
+}
+
+/**
+ * Companion emitter writing the output images and other files that embedded notebooks link to. Pages that
+ * embed the same image share one copy.
+ */
+export const NotebookAssets: QuartzEmitterPlugin = () => {
+  return {
+    name: "NotebookAssets",
+    getQuartzComponents() {
+      return []
+    },
+    async *emit(ctx, content) {
+      const written = new Set<string>()
+      for (const [, file] of content) {
+        for (const asset of file.data.notebookAssets ?? []) {
+          if (written.has(asset.path)) continue
+          written.add(asset.path)
+          yield writeAsset(ctx, asset)
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Companion emitter writing the standalone pages that `NotebookEmbedding` renders with `pages: true`; their
+ * images and `.ipynb` copies are written by `NotebookAssets`. Takes a page layout like Quartz's `ContentPage`;
+ * without sidebars by default, so the notebook gets the full width.
+ */
+export const NotebookPages: QuartzEmitterPlugin<Partial<FullPageLayout>> = (userOpts) => {
+  const opts: FullPageLayout = {
+    ...sharedPageComponents,
+    beforeBody: [],
+    pageBody: Content(),
+    left: [],
+    right: [],
+    ...userOpts,
+  }
+
+  const { head: Head, header, beforeBody, pageBody, afterBody, left, right, footer: Footer } = opts
+  const Header = HeaderConstructor()
+  const Body = BodyConstructor()
+
+  return {
+    name: "NotebookPages",
+    getQuartzComponents() {
+      return [Head, Header, Body, ...header, ...beforeBody, pageBody, ...afterBody, ...left, ...right, Footer]
+    },
+    async *emit(ctx, content, resources) {
+      // One page per notebook, however many notes embed it
+      const pages = new Map<FullSlug, NotebookPage>()
+      for (const [, file] of content) {
+        for (const page of file.data.notebookPages ?? []) {
+          pages.set(page.slug, page)
+        }
+      }
+
+      const cfg = ctx.cfg.configuration
+      const allFiles = content.map(([, file]) => file.data)
+      for (const page of pages.values()) {
+        const { slug, filePath, relativePath, title, description, text } = page
+        const externalResources = pageResources(pathToRoot(slug), resources)
+        const componentData: QuartzComponentProps = {
+          ctx,
+          fileData: { slug, filePath, relativePath, description, text, frontmatter: { title, tags: [] } },
+          externalResources,
+          cfg,
+          children: [],
+          tree: fromHtml(page.html, { fragment: true }),
+          allFiles,
+        }
+
+        yield write({
+          ctx,
+          content: renderPage(cfg, slug, componentData, opts, externalResources),
+          slug,
+          ext: ".html",
+        })
+      }
+    },
+  }
+}
+
+interface DiagnosticsOptions {
+  /** Fail the build when a notebook could not be embedded; embeds from a stale cache only warn */
+  strict: boolean
+  /** JSON report of every diagnostic, relative to the output folder, or false for none */
+  reportFile: string | false
+}
+
+const defaultDiagnosticsOptions: DiagnosticsOptions = {
+  strict: false,
+  reportFile: false,
+}
+
+/**
+ * Companion emitter summing up the notebooks that could not be embedded, or were embedded from a stale cache,
+ * once every page has been processed. List it last so its summary ends the build output.
+ */
+export const NotebookDiagnostics: QuartzEmitterPlugin<Partial<DiagnosticsOptions>> = (userOpts) => {
+  const opts = { ...defaultDiagnosticsOptions, ...userOpts }
+
+  return {
+    name: "NotebookDiagnostics",
+    getQuartzComponents() {
+      return []
+    },
+    async emit(ctx, content) {
+      const diagnostics = content
+        .flatMap(([, file]) => file.data.notebookDiagnostics ?? [])
+        .sort((a, b) => a.file.localeCompare(b.file) || a.href.localeCompare(b.href))
+      const unavailable = diagnostics.filter(diagnostic => !diagnostic.staleCache)
+      const stale = diagnostics.filter(diagnostic => diagnostic.staleCache)
+
+      if (diagnostics.length > 0) {
+        const lines = diagnostics.map(diagnostic =>
+          `  - ${diagnostic.file}: ${diagnostic.href} (${diagnostic.message}${diagnostic.staleCache ? ", embedded from a stale cache" : ""})`)
+        console.warn(`Notebooks: ${unavailable.length} unavailable, ${stale.length} embedded from a stale cache\n${lines.join("\n")}`)
+      }
+
+      const emitted: FilePath[] = []
+      if (opts.reportFile) {
+        const reportPath = joinSegments(ctx.argv.output, opts.reportFile) as FilePath
+        await fs.mkdir(path.dirname(reportPath), { recursive: true })
+        await fs.writeFile(reportPath, JSON.stringify({
+          unavailable: unavailable.length,
+          staleCache: stale.length,
+          diagnostics,
+        }, null, 2))
+        emitted.push(reportPath)
+      }
+
+      if (opts.strict && unavailable.length > 0) {
+        throw new Error(`${unavailable.length} notebook ${unavailable.length === 1 ? "embed" : "embeds"} could not be rendered`)
+      }
+      return emitted
+    },
+  }
 }